@@ -1,4 +1,5 @@
 // Chat UI state
+let deviceId = null;
 let conversationId = null;
 let eventSource = null;
 let typingIndicatorElement = null;
@@ -54,6 +55,7 @@ async function initChat() {
         
         const response = await fetch('/api/chat/init', { method: 'POST' });
         const data = await response.json();
+        deviceId = data.deviceId;
         conversationId = data.conversationId;
         isChatActive = true;
         updateUIState();
@@ -68,7 +70,9 @@ async function initChat() {
 function connectToEventStream() {
     if (!conversationId) return;
     
-    eventSource = new EventSource(`/api/chat/events/${conversationId}`);
+    eventSource = new EventSource(
+        `/api/chat/events/${conversationId}?deviceId=${encodeURIComponent(deviceId)}`
+    );
     
     eventSource.onmessage = (event) => {
         const data = JSON.parse(event.data);
@@ -93,6 +97,7 @@ function handleChatError(message) {
     }
     
     // Clear conversation ID
+    deviceId = null;
     conversationId = null;
     
     // Update status
@@ -204,16 +209,21 @@ async function sendMessage() {
     if (!text || !conversationId) return;
     
     try {
-        await fetch('/api/chat/send', {
+        const response = await fetch('/api/chat/send', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json'
             },
             body: JSON.stringify({
+                deviceId,
                 conversationId,
                 text
             })
         });
+        if (response.status === 410) {
+            handleChatError('Chat session expired. Start a new chat.');
+            return;
+        }
         
         // Clear input
         messageInput.value = '';
@@ -288,7 +298,7 @@ async function closeChat() {
             headers: {
                 'Content-Type': 'application/json'
             },
-            body: JSON.stringify({ conversationId })
+            body: JSON.stringify({ deviceId, conversationId })
         });
         
         // Disable chat input and button
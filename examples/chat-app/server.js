@@ -2,6 +2,7 @@ import fastify from 'fastify';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { MessagingInAppWebClient } from 'miaw-client';
+import { FileSessionStore } from 'miaw-client/node';
 import dotenv from 'dotenv';
 import fastifyStatic from '@fastify/static';
 
@@ -12,24 +13,43 @@ dotenv.config();
 
 const app = fastify({ logger: true });
 
+// Persist session tokens so chats survive server restarts
+const sessionStore = new FileSessionStore(path.join(__dirname, 'sessions.json'));
+
 // Initialize MIAW client
 const client = new MessagingInAppWebClient({
   baseUrl: process.env.BASE_URL,
   orgId: process.env.ORG_ID,
   developerName: process.env.DEVELOPER_NAME,
-  logger: console
+  logger: console,
+  sessionStore
 });
 
-// Store active conversations
-const conversations = new Map();
-
-// Helper function to get a conversation from the in-memory store
-function getConversation(conversationId) {
-  const conversation = conversations.get(conversationId);
-  if (!conversation) {
-    throw new Error('Conversation not found');
+// Sessions started or being resumed by this process, keyed by device and conversation
+const sessions = new Map();
+
+// Helper function to get the session for a conversation, resuming it from the store if needed
+function getSession(deviceId, conversationId) {
+  const key = `${deviceId}:${conversationId}`;
+  if (!sessions.has(key)) {
+    // The pending resume is cached so concurrent requests share one session
+    const pending = client.sessions.resume({ deviceId, conversationId }).then(session => {
+      if (!session) {
+        // The stored token is gone or can no longer be continued; the user has to start a new chat
+        const error = new Error('Chat session expired. Start a new chat.');
+        error.statusCode = 410;
+        throw error;
+      }
+      return session;
+    });
+    pending.catch(() => {
+      if (sessions.get(key) === pending) {
+        sessions.delete(key);
+      }
+    });
+    sessions.set(key, pending);
   }
-  return conversation;
+  return sessions.get(key);
 }
 
 // Register static file serving
@@ -46,24 +66,23 @@ app.get('/', async (request, reply) => {
 
 // Initialize chat session
 app.post('/api/chat/init', async () => {
-  const { accessToken } = await client.tokens.create();
-  const { id: conversationId } = await client.conversations.create(accessToken);
-  
-  // Store the token and conversation ID
-  conversations.set(conversationId, { accessToken });
-  
-  return { conversationId };
+  const session = await client.sessions.start();
+  const { id: conversationId } = await session.run(token => client.conversations.create(token));
+
+  // Persist the token under the device and conversation ID
+  await session.bindConversation(conversationId);
+  sessions.set(`${session.deviceId}:${conversationId}`, Promise.resolve(session));
+
+  return { deviceId: session.deviceId, conversationId };
 });
 
 // Send message
 app.post('/api/chat/send', async (request) => {
-  const { conversationId, text } = request.body;
-  const conversation = await getConversation(conversationId);
+  const { deviceId, conversationId, text } = request.body;
+  const session = await getSession(deviceId, conversationId);
 
-  const messageEntry = await client.conversations.messages.send(
-    conversation.accessToken,
-    conversationId,
-    { text }
+  const messageEntry = await session.run(token =>
+    client.conversations.messages.send(token, conversationId, { text })
   );
 
   return messageEntry;
@@ -72,7 +91,8 @@ app.post('/api/chat/send', async (request) => {
 // Stream events (SSE endpoint)
 app.get('/api/chat/events/:conversationId', async (request, reply) => {
   const { conversationId } = request.params;
-  const conversation = await getConversation(conversationId);
+  const { deviceId } = request.query;
+  const session = await getSession(deviceId, conversationId);
 
   // Set headers for SSE
   reply.raw.writeHead(200, {
@@ -82,8 +102,9 @@ app.get('/api/chat/events/:conversationId', async (request, reply) => {
   });
 
   // Set up event stream
-  const eventStream = client.events.stream(conversation.accessToken, {
+  const eventStream = session.stream({
     lastEventId: '0',
+    reconnect: true,
     onEvent: (event) => {
       try {
         // Send the raw event data
@@ -93,7 +114,14 @@ app.get('/api/chat/events/:conversationId', async (request, reply) => {
       }
     },
     onError: (error) => {
+      // Parse errors and dropped connections are recovered from, so the browser stream stays open
       console.error('Stream error:', error);
+    },
+    onClose: (reason, error) => {
+      // The stream has closed for good, e.g. its token was rejected or reconnecting gave up
+      if (error) {
+        console.error(`Stream closed (${reason}):`, error);
+      }
       reply.raw.end();
     }
   });
@@ -108,14 +136,16 @@ app.get('/api/chat/events/:conversationId', async (request, reply) => {
 
 // Close conversation
 app.post('/api/chat/close', async (request) => {
-  const { conversationId } = request.body;
-  const conversation = await getConversation(conversationId);
+  const { deviceId, conversationId } = request.body;
+  const session = await getSession(deviceId, conversationId);
 
   // Close the conversation
-  await client.conversations.close(conversation.accessToken, conversationId);
-  
-  // Remove the conversation from our store
-  conversations.delete(conversationId);
+  await session.run(token => client.conversations.close(token, conversationId));
+
+  // Remove the session from memory and from the store
+  session.close();
+  sessions.delete(`${deviceId}:${conversationId}`);
+  await sessionStore.delete({ deviceId, conversationId });
   
   return { success: true };
 });
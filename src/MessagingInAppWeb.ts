@@ -1,16 +1,43 @@
 import { TokenService } from './services/TokenService.js';
 import { ConversationService } from './services/ConversationService.js';
-import { EventService } from './services/EventService.js';
-import { EventSourceClient } from 'eventsource-client';
+import { EventService, type EventStream } from './services/EventService.js';
+import { SessionService, type Session } from './services/SessionService.js';
+import { DeviceService } from './services/DeviceService.js';
+import { ConfigurationService } from './services/ConfigurationService.js';
+import { BusinessHoursService, type BusinessHours } from './services/BusinessHoursService.js';
+import { AttachmentService } from './services/AttachmentService.js';
+import { PrechatForm } from './forms/PrechatForm.js';
+import { Conversation, type ResumeResult } from './conversations/Conversation.js';
+import type { EventHub } from './events/EventHub.js';
+import { getEventAttachments } from './utils/attachments.js';
+import { renderTranscript } from './transcripts/transcript.js';
+import type { EventSourceMessage } from 'eventsource-client';
 import type {
   Logger,
   MessagingInAppWebConfig,
   SSEOptions,
+  EventHubOptions,
   ConversationEntry,
   ConversationResponse,
   ConversationStatus,
+  WaitForRoutingParams,
   MessageParams,
-  ReceiptParams
+  ChoiceSelectionParams,
+  FormSubmissionParams,
+  FileUploadParams,
+  ConversationEntryIterateParams,
+  ConversationListParams,
+  ConversationSummary,
+  TranscriptOptions,
+  TranscriptDocument,
+  Attachment,
+  AttachmentDownload,
+  ReceiptParams,
+  SessionStartParams,
+  ResumeParams,
+  DeviceRegistrationParams,
+  ConfigurationGetParams,
+  DeploymentConfiguration
 } from './types.js';
 
 const REQUIRED_CONFIG = ['baseUrl', 'orgId', 'developerName'];
@@ -26,6 +53,11 @@ export class MessagingInAppWebClient {
   private tokenService: TokenService;
   private conversationService: ConversationService;
   private eventService: EventService;
+  private sessionService: SessionService;
+  private deviceService: DeviceService;
+  private configurationService: ConfigurationService;
+  private businessHoursService: BusinessHoursService;
+  private attachmentService: AttachmentService;
 
   /**
    * Creates a new Messaging In-App and Web client.
@@ -47,6 +79,11 @@ export class MessagingInAppWebClient {
       baseUrl: config.baseUrl,
       orgId: config.orgId,
       developerName: config.developerName,
+      sessionStore: config.sessionStore,
+      identityProvider: config.identityProvider,
+      configurationCacheTtl: config.configurationCacheTtl,
+      enforceBusinessHours: config.enforceBusinessHours,
+      uploadLimits: config.uploadLimits,
     };
 
     this.logger = config.logger || console;
@@ -56,19 +93,46 @@ export class MessagingInAppWebClient {
       this.config.baseUrl,
       this.config.orgId,
       this.config.developerName,
-      this.logger
+      this.logger,
+      this.config.identityProvider
+    );
+    this.eventService = new EventService(
+      this.config.baseUrl,
+      this.config.orgId,
+      this.logger,
+      (token, conversationId, since) =>
+        this.conversationService.iterateEntries(token, conversationId, { startTimestamp: since })
     );
     this.conversationService = new ConversationService(
       this.config.baseUrl,
       this.config.developerName,
       this.logger,
-      this.config.orgId
+      this.config.orgId,
+      this.config.uploadLimits,
+      this.eventService
     );
-    this.eventService = new EventService(
+    this.sessionService = new SessionService(
+      this.tokenService,
+      this.eventService,
+      this.logger,
+      this.config.sessionStore
+    );
+    this.deviceService = new DeviceService(this.config.baseUrl, this.logger);
+    this.configurationService = new ConfigurationService(
       this.config.baseUrl,
       this.config.orgId,
-      this.logger
+      this.config.developerName,
+      this.logger,
+      this.config.configurationCacheTtl
     );
+    this.businessHoursService = new BusinessHoursService(
+      this.config.baseUrl,
+      this.config.orgId,
+      this.config.developerName,
+      this.logger,
+      this.config.configurationCacheTtl
+    );
+    this.attachmentService = new AttachmentService(this.config.baseUrl, this.logger);
   }
 
   /** 
@@ -81,6 +145,138 @@ export class MessagingInAppWebClient {
     return this.tokenService;
   }
 
+  /**
+   * Managed session service.
+   * Sessions hold the current access token, refresh it ahead of expiry, retry calls rejected
+   * with a 401 once with a refreshed token, and re-establish their event streams on refresh.
+   * @returns {Object} Object containing methods for starting managed sessions
+   */
+  get sessions(): {
+    /**
+     * Starts a new managed session. When a session store is configured, a stored token for the
+     * given device and conversation is continued before a new one is created.
+     * @param {SessionStartParams} [params] - Token creation parameters, or an existing access token to adopt
+     * @returns {Promise<Session>} A promise that resolves with the started session
+     */
+    start: (params?: SessionStartParams) => Promise<Session>;
+    /**
+     * Resumes the managed session of an existing conversation without connecting a conversation
+     * handle. Continues the given token, or the token kept in the session store for the device.
+     * @param {ResumeParams} params - Conversation, and token or device to resume
+     * @returns {Promise<Session | undefined>} A promise that resolves with the resumed session, or
+     * undefined if a new session has to be started
+     */
+    resume: (params: ResumeParams) => Promise<Session | undefined>;
+  } {
+    return {
+      start: (params?: SessionStartParams) => this.sessionService.start(params),
+      resume: (params: ResumeParams) => this.sessionService.resume(params),
+    };
+  }
+
+  /**
+   * Deployment configuration service.
+   * Retrieves the embedded service deployment configuration, including the pre-chat form,
+   * branding and attachment settings, so features can be enabled based on the deployment.
+   * @returns {Object} Object containing methods for retrieving the deployment configuration
+   */
+  get configuration(): {
+    /**
+     * Retrieves the deployment configuration. Results are cached per language until the configured TTL passes.
+     * @param {ConfigurationGetParams} [params] - Optional language and cache options
+     * @returns {Promise<DeploymentConfiguration>} A promise that resolves with the deployment configuration
+     */
+    get: (params?: ConfigurationGetParams) => Promise<DeploymentConfiguration>;
+
+    /**
+     * Creates a pre-chat form builder from the deployment's pre-chat field definitions.
+     * Use it to validate pre-chat data and produce the routing attributes for conversation creation.
+     * @param {ConfigurationGetParams} [params] - Optional language and cache options
+     * @returns {Promise<PrechatForm>} A promise that resolves with the pre-chat form builder
+     */
+    prechatForm: (params?: ConfigurationGetParams) => Promise<PrechatForm>;
+  } {
+    return {
+      get: (params?: ConfigurationGetParams) => this.configurationService.get(params),
+      prechatForm: async (params?: ConfigurationGetParams) =>
+        PrechatForm.fromConfiguration(await this.configurationService.get(params)),
+    };
+  }
+
+  /**
+   * Business hours service.
+   * Looks up the deployment's business hours so clients can tell end users when agents are available.
+   * @returns {Object} Object containing methods for retrieving business hours
+   */
+  get businessHours(): {
+    /**
+     * Retrieves the deployment's business hours, cached until `configurationCacheTtl` passes.
+     * @returns {Promise<BusinessHours>} A promise that resolves with the business hours and their open/closed helpers
+     */
+    get: () => Promise<BusinessHours>;
+  } {
+    return {
+      get: () => this.businessHoursService.get(),
+    };
+  }
+
+  /**
+   * Push notification device management service.
+   * Registers and unregisters devices behind Mobile platform tokens for push notifications.
+   * @returns {Object} Object containing methods for managing push notification registrations
+   */
+  get devices(): {
+    /**
+     * Registers the device behind an access token for APNs or FCM push notifications.
+     * @param {string} token - Authentication token created for the Mobile platform
+     * @param {DeviceRegistrationParams} params - Device token and either an APNs bundle ID or the FCM flag
+     * @returns {Promise<{success: boolean}>} A promise that resolves with the success status
+     */
+    register: (token: string, params: DeviceRegistrationParams) => Promise<{success: boolean}>;
+
+    /**
+     * Removes the push notification registration of the device behind an access token.
+     * @param {string} token - Authentication token created for the Mobile platform
+     * @returns {Promise<{success: boolean}>} A promise that resolves with the success status
+     */
+    unregister: (token: string) => Promise<{success: boolean}>;
+  } {
+    return {
+      register: (token: string, params: DeviceRegistrationParams) =>
+        this.deviceService.register(token, params),
+      unregister: (token: string) => this.deviceService.unregister(token),
+    };
+  }
+
+  /**
+   * Attachment service.
+   * Reads the files attached to message entries and downloads them with an access token,
+   * so servers can proxy agent files to the browser.
+   * @returns {Object} Object containing methods for reading and downloading attachments
+   */
+  get attachments(): {
+    /**
+     * Downloads an attachment from a conversation entry or event.
+     * @param {string} token - Authentication token for the API
+     * @param {Attachment} attachment - Attachment to download
+     * @returns {Promise<AttachmentDownload>} A promise that resolves with the content type, length and body stream
+     */
+    download: (token: string, attachment: Attachment) => Promise<AttachmentDownload>;
+
+    /**
+     * Extracts the attachments from a message event received on an event stream.
+     * @param {EventSourceMessage} event - Event received on an event stream
+     * @returns {Attachment[]} The attachments of the message, or an empty list for other events
+     */
+    fromEvent: (event: EventSourceMessage) => Attachment[];
+  } {
+    return {
+      download: (token: string, attachment: Attachment) =>
+        this.attachmentService.download(token, attachment),
+      fromEvent: (event: EventSourceMessage) => getEventAttachments(event),
+    };
+  }
+
   /** 
    * Real-time event streaming service.
    * Enables real-time communication through Server-Sent Events (SSE).
@@ -90,18 +286,73 @@ export class MessagingInAppWebClient {
   get events(): {
     /** 
      * Creates a new event source stream for real-time event handling. Events include messages, routing results, participant changes, and more.
+     * Events are parsed and passed to typed handlers such as `onMessage` and `onTyping`; events that cannot be parsed go to `onUnknown`.
+     * With the `reconnect` option, dropped connections are re-established with backoff and resume after the last event received.
+     * Failures are passed to `onError` as typed errors, and `onClose` is called once with the reason the stream closed.
+     * Entries missed while the stream was down are loaded after it reconnects or resumes and passed to the handlers in order, once each.
      * You can see example payloads for all events in the [official Salesforce documentation](https://developer.salesforce.com/docs/service/messaging-api/references/about/server-sent-events-structure.html).
      * @param {string} token - Authentication token for the API
      * @param {SSEOptions} options - Configuration options for the event source stream
-     * @returns {EventSourceClient} An event source client instance for handling real-time events
+     * @returns {EventStream} An event stream for handling real-time events
      */
-    stream: (token: string, options: SSEOptions) => EventSourceClient;
+    stream: (token: string, options: SSEOptions) => EventStream;
+    /**
+     * Returns the event hub for a token, which shares a single connection between every conversation subscribed through it.
+     * Subscribe with `hub.subscribe(conversationId, handlers)`; the connection opens with the first subscription and closes once the last one is removed.
+     * Managed sessions move the hub of their token to each refreshed token, which reconnects it.
+     * @param {string} token - Authentication token for the API
+     * @param {EventHubOptions} [options] - Connection options, applied when the hub for the token is created
+     * @returns {EventHub} The event hub for the token
+     */
+    hub: (token: string, options?: EventHubOptions) => EventHub;
   } {
     return {
-      stream: (token: string, options: SSEOptions) => this.eventService.createEventSourceStream(token, options)
+      stream: (token: string, options: SSEOptions) => this.eventService.createEventSourceStream(token, options),
+      hub: (token: string, options?: EventHubOptions) => this.eventService.hub(token, options)
     };
   }
   
+  /**
+   * Creates a handle for a conversation bound to a managed session.
+   * The handle makes calls with the session's current token and, once connected, keeps the
+   * conversation's status, participants and entries current from the session's event stream.
+   * @param {Session} session - Managed session to make calls and stream events with
+   * @param {string} conversationId - ID of the conversation
+   * @returns {Conversation} The conversation handle
+   */
+  conversation(session: Session, conversationId: string): Conversation {
+    return new Conversation(this.conversationService, session, conversationId, this.logger);
+  }
+
+  /**
+   * Resumes an existing conversation after a reload or restart.
+   * Continues the given token, or the token kept in the session store for the device, re-opens
+   * the event stream after the last event ID and backfills the entries missed since the last
+   * entry timestamp or the last event.
+   * @param {ResumeParams} params - Conversation, token or device, and the last event and entry
+   * processed
+   * @returns {Promise<ResumeResult>} A promise that resolves with the resumed session and connected
+   * conversation handle, or an expired outcome if a new session has to be started
+   */
+  async resume(params: ResumeParams): Promise<ResumeResult> {
+    const session = await this.sessionService.resume(params);
+    if (!session) {
+      return { status: 'expired', conversationId: params.conversationId };
+    }
+
+    const conversation = this.conversation(session, params.conversationId);
+    try {
+      const missedEntries = await conversation.connect({
+        lastEventId: params.lastEventId || session.lastEventId,
+        lastEntryTimestamp: params.lastEntryTimestamp,
+      });
+      return { status: 'resumed', session, conversation, missedEntries };
+    } catch (error: unknown) {
+      session.close();
+      throw error;
+    }
+  }
+
   /** 
    * Conversation and message management service.
    * Provides comprehensive functionality for managing conversations and messages.
@@ -112,6 +363,7 @@ export class MessagingInAppWebClient {
   get conversations(): {
     /** 
      * Creates a new conversation. This method can pass pre-chat data as routing attributes.
+     * When `enforceBusinessHours` is enabled, rejects with a BusinessHoursError outside business hours.
      * @param {string} token - Authentication token for the API
      * @param {Record<string, unknown>} [params] - Optional parameters for conversation creation
      * @returns {Promise<{id: string}>} A promise that resolves with the created conversation ID
@@ -141,6 +393,28 @@ export class MessagingInAppWebClient {
      * @returns {Promise<ConversationStatus>} A promise that resolves with the conversation status
      */
     status: (token: string, conversationId: string) => Promise<ConversationStatus>;
+
+    /**
+     * Wait until a conversation reaches a routing status, such as being routed to an agent. Listens for routing events and polls the status as a fallback.
+     * Resolves early if the conversation closes; rejects with a timeout error if the timeout passes or with the abort reason if the signal aborts.
+     * @param {string} token - Authentication token for the API
+     * @param {string} conversationId - ID of the conversation to wait for
+     * @param {WaitForRoutingParams} [params] - Statuses to wait for (defaults to 'Routed'), timeout and cancellation signal
+     * @returns {Promise<ConversationStatus>} A promise that resolves with the status that ended the wait
+     */
+    waitForRouting: (
+      token: string,
+      conversationId: string,
+      params?: WaitForRoutingParams
+    ) => Promise<ConversationStatus>;
+
+    /**
+     * Download the transcript document Salesforce generates for a conversation, for example to email a copy after the chat closes.
+     * @param {string} token - Authentication token for the API
+     * @param {string} conversationId - ID of the conversation to get the transcript for
+     * @returns {Promise<TranscriptDocument>} A promise that resolves with the document's content type, stream and buffer reader
+     */
+    transcript: (token: string, conversationId: string) => Promise<TranscriptDocument>;
     
     /** 
      * Message management namespace
@@ -149,13 +423,52 @@ export class MessagingInAppWebClient {
      */
     messages: {
       /** 
-       * Send a message in an active conversation.
+       * Send a message in an active conversation. Set `format` to send a rich link, choices or form response instead of text.
        * @param {string} token - Authentication token for the API
        * @param {string} conversationId - ID of the conversation to send message to
        * @param {MessageParams} params - Parameters for the message to send
        * @returns {Promise<ConversationEntry>} A promise that resolves with the sent message entry
        */
       send: (token: string, conversationId: string, params: MessageParams) => Promise<ConversationEntry>;
+
+      /**
+       * Answer a bot's buttons or quick replies with the selected options.
+       * @param {string} token - Authentication token for the API
+       * @param {string} conversationId - ID of the conversation to send the response to
+       * @param {ChoiceSelectionParams} params - ID of the choices message and the selected options
+       * @returns {Promise<ConversationEntry>} A promise that resolves with the sent message entry
+       */
+      sendChoice: (
+        token: string,
+        conversationId: string,
+        params: ChoiceSelectionParams
+      ) => Promise<ConversationEntry>;
+
+      /**
+       * Submit the values of a form sent by a bot or agent.
+       * @param {string} token - Authentication token for the API
+       * @param {string} conversationId - ID of the conversation to send the response to
+       * @param {FormSubmissionParams} params - ID of the form message and the submitted values
+       * @returns {Promise<ConversationEntry>} A promise that resolves with the sent message entry
+       */
+      sendFormResponse: (
+        token: string,
+        conversationId: string,
+        params: FormSubmissionParams
+      ) => Promise<ConversationEntry>;
+
+      /**
+       * Upload a file, such as a screenshot or PDF, with optional text. Files are checked against the configured upload limits.
+       * @param {string} token - Authentication token for the API
+       * @param {string} conversationId - ID of the conversation to upload the file to
+       * @param {FileUploadParams} params - File content as a Blob, Buffer or ReadableStream, its name and MIME type
+       * @returns {Promise<ConversationEntry>} A promise that resolves with the sent message entry
+       */
+      sendFile: (
+        token: string,
+        conversationId: string,
+        params: FileUploadParams
+      ) => Promise<ConversationEntry>;
     };
     
     /** 
@@ -209,18 +522,76 @@ export class MessagingInAppWebClient {
       conversationId: string,
       params?: Record<string, unknown>
     ) => Promise<ConversationResponse>;
+
+    /**
+     * List the conversations of the end user the token belongs to, most recently active first, for example to build an inbox.
+     * Each summary includes the routing status, a preview of the last entry, the last activity time and the unread message count.
+     * @param {string} token - Authentication token for the API
+     * @param {ConversationListParams} [params] - Whether to include closed conversations and the maximum number to return
+     * @returns {Promise<ConversationSummary[]>} A promise that resolves with the conversation summaries
+     */
+    listAll: (token: string, params?: ConversationListParams) => Promise<ConversationSummary[]>;
+
+    /**
+     * Conversation history namespace.
+     * Walks the full history of long-running conversations without managing page cursors.
+     */
+    entries: {
+      /**
+       * Iterate over every entry of a conversation. Pages are requested as the iteration advances,
+       * the timestamp window moves forward automatically, and entries repeated at page boundaries are skipped.
+       * @param {string} token - Authentication token for the API
+       * @param {string} conversationId - ID of the conversation to read
+       * @param {ConversationEntryIterateParams} [params] - Optional direction, entry type filter and page size
+       * @returns {AsyncIterable<ConversationEntry>} An async iterable of the conversation entries
+       */
+      iterate: (
+        token: string,
+        conversationId: string,
+        params?: ConversationEntryIterateParams
+      ) => AsyncIterable<ConversationEntry>;
+
+      /**
+       * Export the full history of a conversation as a JSON, plain text, HTML or CSV transcript.
+       * Entries are fetched page by page and rendered as they arrive, so the output can be piped to a file or response.
+       * @param {string} token - Authentication token for the API
+       * @param {string} conversationId - ID of the conversation to export
+       * @param {TranscriptOptions} options - Output format, time zone and title
+       * @returns {AsyncIterable<string>} An async iterable of transcript chunks
+       */
+      export: (
+        token: string,
+        conversationId: string,
+        options: TranscriptOptions
+      ) => AsyncIterable<string>;
+    };
   } {
     return {
-      create: (token: string, params = {}) => this.conversationService.create(token, params),
+      create: async (token: string, params = {}): Promise<{id: string}> => {
+        if (this.config.enforceBusinessHours) {
+          await this.businessHoursService.assertOpen('conversations.create_conversation');
+        }
+        return this.conversationService.create(token, params);
+      },
       close: (token: string, conversationId: string) =>
         this.conversationService.close(token, conversationId),
       endSession: (token: string, conversationId: string) =>
         this.conversationService.endSession(token, conversationId),
       status: (token: string, conversationId: string) =>
         this.conversationService.status(token, conversationId),
+      waitForRouting: (token: string, conversationId: string, params?: WaitForRoutingParams) =>
+        this.conversationService.waitForRouting(token, conversationId, params),
+      transcript: (token: string, conversationId: string) =>
+        this.conversationService.transcript(token, conversationId),
       messages: {
         send: (token: string, conversationId: string, params: MessageParams) =>
           this.conversationService.sendMessage(token, conversationId, params),
+        sendChoice: (token: string, conversationId: string, params: ChoiceSelectionParams) =>
+          this.conversationService.sendChoice(token, conversationId, params),
+        sendFormResponse: (token: string, conversationId: string, params: FormSubmissionParams) =>
+          this.conversationService.sendFormResponse(token, conversationId, params),
+        sendFile: (token: string, conversationId: string, params: FileUploadParams) =>
+          this.conversationService.sendFile(token, conversationId, params),
       },
       typing: {
         start: (token: string, conversationId: string) =>
@@ -234,6 +605,17 @@ export class MessagingInAppWebClient {
       },
       list: (token: string, conversationId: string, params = {}) =>
         this.conversationService.list(token, conversationId, params),
+      listAll: (token: string, params?: ConversationListParams) =>
+        this.conversationService.listAll(token, params),
+      entries: {
+        iterate: (token: string, conversationId: string, params?: ConversationEntryIterateParams) =>
+          this.conversationService.iterateEntries(token, conversationId, params),
+        export: (token: string, conversationId: string, options: TranscriptOptions) =>
+          renderTranscript(this.conversationService.iterateEntries(token, conversationId), {
+            conversationId,
+            ...options,
+          }),
+      },
     };
   }
 }
@@ -101,7 +101,7 @@ describe('MessagingInAppWebClient Integration', () => {
           type: 'Message',
           text: testMessage,
           sender: {
-            type: 'endUser',
+            type: 'EndUser',
           },
         });
 
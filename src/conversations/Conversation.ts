@@ -0,0 +1,403 @@
+import type { EventSourceMessage } from 'eventsource-client';
+import type {
+  ConversationConnectParams,
+  ConversationEntry,
+  ConversationEntryIterateParams,
+  ConversationEntryListParams,
+  ConversationEvents,
+  ConversationParticipant,
+  ConversationResponse,
+  ConversationStatus,
+  Logger,
+  MessageParams,
+  SessionStream
+} from '../types';
+import type { ConversationService } from '../services/ConversationService';
+import type { Session } from '../services/SessionService';
+import { Emitter } from '../utils/emitter';
+import { getEntryTimestamp, parseEventEntry } from '../utils/entries';
+import { getEventIdTimestamp } from '../utils/events';
+
+const RECENT_ENTRIES_LIMIT = 50;
+const ROUTING_ENTRY_TYPES: ConversationEntry['type'][] = [
+  'RoutingResult',
+  'RoutingWorkResult',
+  'ParticipantChanged',
+];
+
+/**
+ * Outcome of resuming a conversation. An expired outcome means the token can no longer be
+ * continued, or none was found, and a new session has to be started.
+ */
+export type ResumeResult =
+  | {
+      /** The session was resumed */
+      status: 'resumed';
+      /** The resumed session */
+      session: Session;
+      /** Handle for the conversation, connected to the event stream */
+      conversation: Conversation;
+      /** Entries received after the last entry timestamp or last event ID, oldest first */
+      missedEntries: ConversationEntry[];
+    }
+  | {
+      /** The session could not be resumed */
+      status: 'expired';
+      /** ID of the conversation that could not be resumed */
+      conversationId: string;
+    };
+
+/**
+ * Handle for a single conversation, bound to a managed session.
+ * Calls are made with the session's current token, and once connected the handle keeps its
+ * status, participants and entries current from the session's event stream, emitting an
+ * event for every change.
+ */
+export class Conversation extends Emitter<ConversationEvents> {
+  private currentStatus?: ConversationStatus;
+  private entryMap = new Map<string, ConversationEntry>();
+  private readIds = new Set<string>();
+  private stream?: SessionStream;
+  private lastStreamEventId?: string;
+
+  constructor(
+    private conversationService: ConversationService,
+    private session: Session,
+    readonly id: string,
+    private logger: Logger
+  ) {
+    super();
+  }
+
+  /** Last known status of the conversation, once connected */
+  get status(): ConversationStatus | undefined {
+    return this.currentStatus;
+  }
+
+  /** Whether the conversation is still open, as far as the handle knows */
+  get isActive(): boolean {
+    return this.currentStatus?.isActive ?? true;
+  }
+
+  /** ID of the last event received on the event stream, to resume from later */
+  get lastEventId(): string | undefined {
+    return this.stream?.lastEventId || this.lastStreamEventId;
+  }
+
+  /** Epoch ms timestamp of the latest entry known to the handle, to backfill from later */
+  get lastEntryTimestamp(): number | undefined {
+    let latest: number | undefined;
+    for (const entry of this.entryMap.values()) {
+      const timestamp = getEntryTimestamp(entry);
+      if (!Number.isNaN(timestamp)) {
+        latest = Math.max(latest ?? timestamp, timestamp);
+      }
+    }
+    return latest;
+  }
+
+  /** Whether the handle is listening to the event stream */
+  get isConnected(): boolean {
+    return !!this.stream;
+  }
+
+  /** Entries known to the handle, oldest first; typing indicators are not kept */
+  get entries(): ConversationEntry[] {
+    return [...this.entryMap.values()].sort((a, b) => getEntryTimestamp(a) - getEntryTimestamp(b));
+  }
+
+  /** Participants currently in the conversation, based on the participant changes it knows of */
+  get participants(): ConversationParticipant[] {
+    const participants = new Map<string, ConversationParticipant>();
+
+    for (const entry of this.entries) {
+      if (entry.type !== 'ParticipantChanged') {
+        continue;
+      }
+      for (const { operation, participant, displayName } of entry.changes) {
+        if (operation === 'add') {
+          participants.set(participant.id, {
+            ...participant,
+            ...(displayName ? { displayName } : {}),
+          });
+        } else {
+          participants.delete(participant.id);
+        }
+      }
+    }
+
+    return [...participants.values()];
+  }
+
+  /**
+   * Starts listening to the event stream and loads the current status and entries.
+   * With a last event ID the stream resumes after that event, and every entry after the last
+   * entry timestamp, or after the time of the last event, is backfilled, so nothing missed while
+   * the client was away is lost. If the time of the last event cannot be read from its ID, every
+   * entry is loaded. Without either the most recent entries are loaded.
+   * @param {ConversationConnectParams} [params] - Last event ID and entry timestamp the client
+   * processed
+   * @returns {Promise<ConversationEntry[]>} Promise containing the loaded entries that were not
+   * known to the handle, oldest first
+   */
+  async connect(params: ConversationConnectParams = {}): Promise<ConversationEntry[]> {
+    const since =
+      params.lastEntryTimestamp ??
+      (params.lastEventId ? getEventIdTimestamp(params.lastEventId) : undefined);
+    const resuming = since !== undefined || !!params.lastEventId;
+
+    if (!this.stream) {
+      this.stream = this.session.stream({
+        ...(params.lastEventId ? { lastEventId: params.lastEventId } : {}),
+        onEvent: event => this.handleEvent(event),
+      });
+    }
+
+    const [, entries] = await Promise.all([
+      this.refreshStatus(),
+      resuming ? this.loadEntriesSince(since) : this.loadRecentEntries(),
+    ]);
+
+    return entries
+      .sort((a, b) => getEntryTimestamp(a) - getEntryTimestamp(b))
+      .filter(entry => this.addEntry(entry));
+  }
+
+  /**
+   * Stops listening to the event stream. The known state is kept.
+   */
+  disconnect(): void {
+    this.lastStreamEventId = this.stream?.lastEventId || this.lastStreamEventId;
+    this.stream?.close();
+    this.stream = undefined;
+  }
+
+  /**
+   * Sends a message and adds the sent entry to the conversation.
+   * @param {MessageParams | string} params - Message to send, or the text of a text message
+   * @returns {Promise<ConversationEntry>} Promise containing the sent message entry
+   */
+  async send(params: MessageParams | string): Promise<ConversationEntry> {
+    const message = typeof params === 'string' ? { text: params } : params;
+    const entry = await this.session.run(token =>
+      this.conversationService.sendMessage(token, this.id, message)
+    );
+    this.addEntry(entry);
+    return entry;
+  }
+
+  /**
+   * Starts or stops the end user's typing indicator.
+   * @param {boolean} [isTyping] - Whether the end user is typing (defaults to true)
+   * @returns {Promise<{ success: boolean }>} Promise indicating success
+   */
+  typing(isTyping: boolean = true): Promise<{ success: boolean }> {
+    return this.session.run(token =>
+      this.conversationService.sendTypingIndicator(token, this.id, isTyping)
+    );
+  }
+
+  /**
+   * Sends read receipts for entries. Without entry IDs, every message from other participants
+   * that has not been marked read yet is marked read.
+   * @param {string[]} [entryIds] - IDs of the entries to mark read
+   * @returns {Promise<{ success: boolean }>} Promise indicating success
+   */
+  async markRead(entryIds?: string[]): Promise<{ success: boolean }> {
+    const ids =
+      entryIds ||
+      this.entries
+        .filter(
+          entry =>
+            entry.type === 'Message' &&
+            entry.sender.type !== 'EndUser' &&
+            !this.readIds.has(entry.id)
+        )
+        .map(entry => entry.id);
+
+    if (!ids.length) {
+      return { success: true };
+    }
+
+    const result = await this.session.run(token =>
+      this.conversationService.sendReceipts(token, this.id, {
+        entries: ids.map(id => ({ type: 'Read', conversationEntryId: id })),
+      })
+    );
+    for (const id of ids) {
+      this.readIds.add(id);
+    }
+    return result;
+  }
+
+  /**
+   * Closes the conversation.
+   * @returns {Promise<{ success: boolean }>} Promise indicating success
+   */
+  close(): Promise<{ success: boolean }> {
+    return this.session.run(token => this.conversationService.close(token, this.id));
+  }
+
+  /**
+   * Ends the end user's messaging session while keeping the conversation open.
+   * @returns {Promise<{ success: boolean }>} Promise indicating success
+   */
+  endSession(): Promise<{ success: boolean }> {
+    return this.session.run(token => this.conversationService.endSession(token, this.id));
+  }
+
+  /**
+   * Iterates over the full history of the conversation, adding each entry to the conversation.
+   * @param {ConversationEntryIterateParams} [params] - Optional direction, filter and page size
+   * @returns {AsyncGenerator<ConversationEntry>} Generator yielding the entries in order
+   */
+  async *history(params?: ConversationEntryIterateParams): AsyncGenerator<ConversationEntry> {
+    for await (const entry of this.conversationService.iterateEntriesFrom(
+      listParams => this.listEntries(listParams),
+      params
+    )) {
+      this.addEntry(entry);
+      yield entry;
+    }
+  }
+
+  /**
+   * Retrieves the most recent entries of the conversation.
+   * @returns {Promise<ConversationEntry[]>} Promise containing the entries
+   */
+  private async loadRecentEntries(): Promise<ConversationEntry[]> {
+    const page = await this.session.run(token =>
+      this.conversationService.list(token, this.id, {
+        limit: RECENT_ENTRIES_LIMIT,
+        direction: 'FromEnd',
+      })
+    );
+    return page.entries;
+  }
+
+  /**
+   * Retrieves a page of the conversation's entries with the session's current token.
+   * @param {ConversationEntryListParams} params - Parameters for filtering and pagination
+   * @returns {Promise<ConversationResponse>} Promise containing the entries
+   */
+  private listEntries(params: ConversationEntryListParams): Promise<ConversationResponse> {
+    return this.session.run(token => this.conversationService.list(token, this.id, params));
+  }
+
+  /**
+   * Retrieves every entry of the conversation after a time.
+   * @param {number} [since] - Epoch ms timestamp to load entries after; every entry is loaded
+   * when omitted
+   * @returns {Promise<ConversationEntry[]>} Promise containing the entries
+   */
+  private async loadEntriesSince(since?: number): Promise<ConversationEntry[]> {
+    const entries: ConversationEntry[] = [];
+    for await (const entry of this.conversationService.iterateEntriesFrom(
+      listParams => this.listEntries(listParams),
+      since !== undefined ? { startTimestamp: since } : {}
+    )) {
+      if (since === undefined || getEntryTimestamp(entry) > since) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Applies an event from the event stream if it belongs to this conversation.
+   * @param {EventSourceMessage} event - Event received on the event stream
+   */
+  private handleEvent(event: EventSourceMessage): void {
+    const parsed = parseEventEntry(event);
+    if (!parsed || parsed.conversationId !== this.id) {
+      return;
+    }
+
+    try {
+      this.applyEntry(parsed.entry);
+    } catch (error: unknown) {
+      this.logger.error(`Error handling event for conversation ${this.id}:`, error);
+      this.emit('error', error);
+    }
+  }
+
+  /**
+   * Updates the state of the conversation from a live entry.
+   * @param {ConversationEntry} entry - Entry received on the event stream
+   */
+  private applyEntry(entry: ConversationEntry): void {
+    if (entry.type === 'TypingStartedIndicator' || entry.type === 'TypingStoppedIndicator') {
+      if (entry.sender.type !== 'EndUser') {
+        this.emit('typing', {
+          participant: entry.sender,
+          isTyping: entry.type === 'TypingStartedIndicator',
+        });
+      }
+      return;
+    }
+
+    if (!this.addEntry(entry)) {
+      return;
+    }
+
+    if (entry.type === 'CloseConversation') {
+      this.setStatus({
+        ...(this.currentStatus || {}),
+        id: this.id,
+        status: 'Closed',
+        rawStatus: 'Closed',
+        isActive: false,
+      });
+      this.emit('close', entry);
+    } else if (ROUTING_ENTRY_TYPES.includes(entry.type)) {
+      this.refreshStatus().catch(error => {
+        this.logger.warn(`Failed to refresh status of conversation ${this.id}`, error);
+        this.emit('error', error);
+      });
+    }
+  }
+
+  /**
+   * Adds an entry to the conversation unless it is already known.
+   * @param {ConversationEntry} entry - Entry to add
+   * @returns {boolean} indicating if the entry was new
+   */
+  private addEntry(entry: ConversationEntry): boolean {
+    if (this.entryMap.has(entry.id)) {
+      return false;
+    }
+
+    this.entryMap.set(entry.id, entry);
+    if (entry.type === 'ReadAcknowledgement' && entry.acknowledgedEntryId) {
+      this.readIds.add(entry.acknowledgedEntryId);
+    }
+
+    this.emit('entry', entry);
+    if (entry.type === 'ParticipantChanged') {
+      this.emit('participants', this.participants);
+    }
+    return true;
+  }
+
+  /**
+   * Retrieves the current status of the conversation.
+   * @returns {Promise<void>} Promise resolving once the status is updated
+   */
+  private async refreshStatus(): Promise<void> {
+    const status = await this.session.run(token => this.conversationService.status(token, this.id));
+    this.setStatus(status);
+  }
+
+  /**
+   * Stores the status of the conversation, emitting a status event if it changed.
+   * @param {ConversationStatus} status - Current status of the conversation
+   */
+  private setStatus(status: ConversationStatus): void {
+    const previous = this.currentStatus;
+    this.currentStatus = status;
+
+    if (previous?.status !== status.status || previous.isActive !== status.isActive) {
+      this.emit('status', status);
+    }
+  }
+}
@@ -0,0 +1,334 @@
+/// <reference types="jest" />
+import { jest } from '@jest/globals';
+import type { EventSourceMessage } from 'eventsource-client';
+import { Conversation } from '../Conversation.js';
+import { parseConversationEntry } from '../../utils/entries.js';
+import type { ConversationService } from '../../services/ConversationService.js';
+import type { Session } from '../../services/SessionService.js';
+import type { ConversationEntry, Logger, SSEOptions } from '../../types.js';
+import type { ConversationEntryData } from '../../types/api.js';
+
+function message(id: string, timestamp: number, role: string, text: string): ConversationEntryData {
+  return {
+    identifier: id,
+    entryType: 'Message',
+    entryPayload: JSON.stringify({
+      abstractMessage: {
+        messageType: 'StaticContentMessage',
+        id,
+        staticContent: { formatType: 'Text', text },
+      },
+    }),
+    clientTimestamp: timestamp,
+    sender: { role, subject: `${role}-1` },
+  };
+}
+
+function participantChanged(
+  id: string,
+  timestamp: number,
+  operation: 'add' | 'remove'
+): ConversationEntryData {
+  return {
+    identifier: id,
+    entryType: 'ParticipantChanged',
+    entryPayload: JSON.stringify({
+      entries: [
+        {
+          operation,
+          displayName: 'Ada',
+          participant: { role: 'Agent', subject: 'Agent-1' },
+        },
+      ],
+    }),
+    clientTimestamp: timestamp,
+    sender: { role: 'System', subject: 'system' },
+  };
+}
+
+function event(
+  type: string,
+  entry: ConversationEntryData,
+  conversationId = 'conv-id'
+): EventSourceMessage {
+  return {
+    id: entry.identifier,
+    event: type,
+    data: JSON.stringify({ conversationId, conversationEntry: entry }),
+  };
+}
+
+describe('Conversation', () => {
+  let conversation: Conversation;
+  let mockLogger: Logger;
+  let mockService: {
+    status: jest.Mock<any>;
+    list: jest.Mock<any>;
+    iterateEntriesFrom: jest.Mock<any>;
+    sendMessage: jest.Mock<any>;
+    sendReceipts: jest.Mock<any>;
+    close: jest.Mock<any>;
+  };
+  let mockSession: { token: string; run: jest.Mock<any>; stream: jest.Mock<any> };
+  let mockStream: { close: jest.Mock<any>; lastEventId: string | undefined };
+  let streamOptions: SSEOptions;
+
+  beforeEach(() => {
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    mockService = {
+      status: jest.fn(async () => ({
+        id: 'conv-id',
+        status: 'Waiting',
+        rawStatus: 'Waiting',
+        isActive: true,
+      })),
+      list: jest.fn(async () => ({
+        id: 'conv-id',
+        entries: [
+          message('m2', 3000, 'EndUser', 'Hi Ada'),
+          participantChanged('p1', 2000, 'add'),
+          message('m1', 1000, 'EndUser', 'Hello'),
+        ].map(entry => parseConversationEntry(entry)),
+      })),
+      iterateEntriesFrom: jest.fn(async function* () {
+        yield* [
+          message('m2', 3000, 'EndUser', 'Hi Ada'),
+          message('m3', 4000, 'Agent', 'Hi, how can I help?'),
+        ].map(entry => parseConversationEntry(entry));
+      }),
+      sendMessage: jest.fn(async () =>
+        parseConversationEntry(message('m3', 4000, 'EndUser', 'Are you there?'))
+      ),
+      sendReceipts: jest.fn(async () => ({ success: true })),
+      close: jest.fn(async () => ({ success: true })),
+    };
+    mockStream = { close: jest.fn(), lastEventId: undefined };
+    mockSession = {
+      token: 'test-token',
+      run: jest.fn((operation: (token: string) => Promise<unknown>) => operation('test-token')),
+      stream: jest.fn((options: SSEOptions) => {
+        streamOptions = options;
+        mockStream.lastEventId = options.lastEventId;
+        return mockStream;
+      }),
+    };
+
+    conversation = new Conversation(
+      mockService as unknown as ConversationService,
+      mockSession as unknown as Session,
+      'conv-id',
+      mockLogger
+    );
+  });
+
+  describe('connect', () => {
+    it('should load the status, recent entries and participants', async () => {
+      const onStatus = jest.fn();
+      conversation.on('status', onStatus);
+
+      await conversation.connect();
+
+      expect(mockSession.stream).toHaveBeenCalledTimes(1);
+      expect(mockService.list).toHaveBeenCalledWith('test-token', 'conv-id', {
+        limit: 50,
+        direction: 'FromEnd',
+      });
+      expect(conversation.isConnected).toBe(true);
+      expect(conversation.status?.status).toBe('Waiting');
+      expect(onStatus).toHaveBeenCalledTimes(1);
+      expect(conversation.entries.map(entry => entry.id)).toEqual(['m1', 'p1', 'm2']);
+      expect(conversation.participants).toEqual([
+        { id: 'Agent-1', type: 'Agent', displayName: 'Ada' },
+      ]);
+    });
+
+    it('should resume the stream and backfill entries after the last entry', async () => {
+      const missed = await conversation.connect({
+        lastEventId: 'event-3',
+        lastEntryTimestamp: 3000,
+      });
+
+      expect(mockSession.stream).toHaveBeenCalledWith(
+        expect.objectContaining({ lastEventId: 'event-3' })
+      );
+      expect(mockService.iterateEntriesFrom).toHaveBeenCalledWith(expect.any(Function), {
+        startTimestamp: 3000,
+      });
+      expect(mockService.list).not.toHaveBeenCalled();
+      expect(missed.map(entry => entry.id)).toEqual(['m3']);
+      expect(conversation.lastEventId).toBe('event-3');
+      expect(conversation.lastEntryTimestamp).toBe(4000);
+    });
+
+    it('should backfill entries after the time of the last event without an entry timestamp', async () => {
+      const lastEventId = Date.UTC(2024, 0, 1).toString();
+      mockService.iterateEntriesFrom.mockImplementationOnce(async function* () {
+        yield parseConversationEntry(
+          message('m3', Date.UTC(2024, 0, 1, 0, 1), 'Agent', 'Hi, how can I help?')
+        );
+      });
+
+      const missed = await conversation.connect({ lastEventId });
+
+      expect(mockService.iterateEntriesFrom).toHaveBeenCalledWith(expect.any(Function), {
+        startTimestamp: Date.UTC(2024, 0, 1),
+      });
+      expect(mockService.list).not.toHaveBeenCalled();
+      expect(missed.map(entry => entry.id)).toEqual(['m3']);
+    });
+
+    it('should backfill every entry when the last event ID is not a time', async () => {
+      const missed = await conversation.connect({ lastEventId: 'event-3' });
+
+      expect(mockService.iterateEntriesFrom).toHaveBeenCalledWith(expect.any(Function), {});
+      expect(mockService.list).not.toHaveBeenCalled();
+      expect(missed.map(entry => entry.id)).toEqual(['m2', 'm3']);
+    });
+  });
+
+  describe('live events', () => {
+    beforeEach(async () => {
+      await conversation.connect();
+    });
+
+    it('should add new entries once and ignore other conversations', () => {
+      const onEntry = jest.fn();
+      conversation.on('entry', onEntry);
+
+      const reply = message('m3', 4000, 'Agent', 'Hi, how can I help?');
+      streamOptions.onEvent(event('CONVERSATION_MESSAGE', reply));
+      streamOptions.onEvent(event('CONVERSATION_MESSAGE', reply));
+      streamOptions.onEvent(
+        event('CONVERSATION_MESSAGE', message('x1', 5000, 'Agent', 'Other'), 'other-conv')
+      );
+
+      expect(onEntry).toHaveBeenCalledTimes(1);
+      expect((onEntry.mock.calls[0][0] as ConversationEntry).id).toBe('m3');
+      expect(conversation.entries.map(entry => entry.id)).toEqual(['m1', 'p1', 'm2', 'm3']);
+    });
+
+    it('should emit typing changes without keeping them as entries', () => {
+      const onTyping = jest.fn();
+      conversation.on('typing', onTyping);
+
+      streamOptions.onEvent(
+        event('CONVERSATION_TYPING_STARTED_INDICATOR', {
+          identifier: 't1',
+          entryType: 'TypingStartedIndicator',
+          entryPayload: '{}',
+          clientTimestamp: 5000,
+          sender: { role: 'Agent', subject: 'Agent-1' },
+        })
+      );
+
+      expect(onTyping).toHaveBeenCalledWith({
+        participant: { id: 'Agent-1', type: 'Agent' },
+        isTyping: true,
+      });
+      expect(conversation.entries).toHaveLength(3);
+    });
+
+    it('should update the participants and refresh the status on participant changes', async () => {
+      const onParticipants = jest.fn();
+      const onStatus = jest.fn();
+      conversation.on('participants', onParticipants);
+      conversation.on('status', onStatus);
+      mockService.status.mockResolvedValueOnce({
+        id: 'conv-id',
+        status: 'Transfer',
+        rawStatus: 'Transfer',
+        isActive: true,
+      });
+
+      streamOptions.onEvent(
+        event('CONVERSATION_PARTICIPANT_CHANGED', participantChanged('p2', 5000, 'remove'))
+      );
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(onParticipants).toHaveBeenCalledWith([]);
+      expect(onStatus).toHaveBeenCalledWith(expect.objectContaining({ status: 'Transfer' }));
+    });
+
+    it('should mark the conversation closed when it is closed', () => {
+      const onClose = jest.fn();
+      conversation.on('close', onClose);
+
+      streamOptions.onEvent(
+        event('CONVERSATION_CLOSE_CONVERSATION', {
+          identifier: 'c1',
+          entryType: 'CloseConversation',
+          entryPayload: '{}',
+          clientTimestamp: 6000,
+          sender: { role: 'System', subject: 'system' },
+        })
+      );
+
+      expect(onClose).toHaveBeenCalledWith(expect.objectContaining({ id: 'c1' }));
+      expect(conversation.status?.status).toBe('Closed');
+      expect(conversation.isActive).toBe(false);
+    });
+  });
+
+  describe('history', () => {
+    it('should request each page with the session token and add the entries', async () => {
+      mockService.iterateEntriesFrom.mockImplementationOnce(async function* (
+        listEntries: (params: unknown) => Promise<{ entries: unknown[] }>
+      ) {
+        yield* (await listEntries({ limit: 2 })).entries;
+      });
+
+      const ids: string[] = [];
+      for await (const entry of conversation.history({ pageSize: 2 })) {
+        ids.push(entry.id);
+      }
+
+      expect(mockSession.run).toHaveBeenCalledTimes(1);
+      expect(mockService.list).toHaveBeenCalledWith('test-token', 'conv-id', { limit: 2 });
+      expect(ids).toEqual(['m2', 'p1', 'm1']);
+      expect(conversation.entries.map(entry => entry.id)).toEqual(['m1', 'p1', 'm2']);
+    });
+  });
+
+  describe('send', () => {
+    it('should send a text message and add the sent entry', async () => {
+      const entry = await conversation.send('Are you there?');
+
+      expect(mockService.sendMessage).toHaveBeenCalledWith('test-token', 'conv-id', {
+        text: 'Are you there?',
+      });
+      expect(conversation.entries).toEqual([entry]);
+    });
+  });
+
+  describe('markRead', () => {
+    it('should send read receipts for unread messages from other participants once', async () => {
+      await conversation.connect();
+      streamOptions.onEvent(
+        event('CONVERSATION_MESSAGE', message('m3', 4000, 'Agent', 'Hi, how can I help?'))
+      );
+
+      await conversation.markRead();
+      await conversation.markRead();
+
+      expect(mockService.sendReceipts).toHaveBeenCalledTimes(1);
+      expect(mockService.sendReceipts).toHaveBeenCalledWith('test-token', 'conv-id', {
+        entries: [{ type: 'Read', conversationEntryId: 'm3' }],
+      });
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should close the event stream', async () => {
+      await conversation.connect();
+      conversation.disconnect();
+
+      expect(mockStream.close).toHaveBeenCalled();
+      expect(conversation.isConnected).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import type {
+  ConversationEventHandlers,
+  EventHubOptions,
+  EventStreamCloseReason,
+  EventStreamState,
+  Logger
+} from '../types';
+import type { EventService, EventStream } from '../services/EventService';
+import { parseEventEntry } from '../utils/entries';
+import type { EventStreamError } from '../utils/error';
+
+/**
+ * Event stream for a token shared between conversations.
+ * The first subscription opens the connection and removing the last one closes it, so any
+ * number of conversations are served by a single connection. Each event is passed only to the
+ * subscriptions of the conversation it belongs to. Subscribing again after the connection was
+ * closed reopens it from the last event received, backfilling the conversations it had received
+ * entries for. The session that owns the token moves the hub to each refreshed token, which
+ * reconnects the open connection with it.
+ */
+export class EventHub {
+  private stream?: EventStream;
+  private subscriptions = new Map<string, Set<ConversationEventHandlers>>();
+  private lastEventId?: string;
+  private lastEntryTimestamps: Record<string, number> = {};
+
+  constructor(
+    private eventService: EventService,
+    private currentToken: string,
+    private options: EventHubOptions,
+    private logger: Logger,
+    private onActive: () => EventHub,
+    private onIdle: () => void
+  ) {
+    this.lastEventId = options.lastEventId;
+  }
+
+  /** Token the shared connection is opened with */
+  get token(): string {
+    return this.currentToken;
+  }
+
+  /** Number of subscriptions sharing the connection */
+  get subscriptionCount(): number {
+    let count = 0;
+    for (const subscriptions of this.subscriptions.values()) {
+      count += subscriptions.size;
+    }
+    return count;
+  }
+
+  /** State of the shared connection, closed while there are no subscriptions */
+  get readyState(): EventStreamState {
+    return this.stream?.readyState ?? 'closed';
+  }
+
+  /**
+   * Subscribes to the events of a conversation, opening the shared connection if needed.
+   * @param {string} conversationId - ID of the conversation
+   * @param {ConversationEventHandlers} handlers - Handlers for the conversation's events
+   * @returns {() => void} Function that removes the subscription
+   */
+  subscribe(conversationId: string, handlers: ConversationEventHandlers): () => void {
+    if (!this.stream) {
+      // A hub replaced while it was idle hands its subscriptions to the replacing hub
+      const hub = this.onActive();
+      if (hub !== this) {
+        return hub.subscribe(conversationId, handlers);
+      }
+    }
+
+    // Copied so the same handlers can be subscribed more than once
+    const subscription = { ...handlers };
+    const subscriptions = this.subscriptions.get(conversationId) || new Set();
+    subscriptions.add(subscription);
+    this.subscriptions.set(conversationId, subscriptions);
+    this.logger.debug(`Subscribed to events of conversation ${conversationId}`);
+
+    if (!this.stream) {
+      this.open();
+    }
+
+    let subscribed = true;
+    return () => {
+      if (subscribed) {
+        subscribed = false;
+        this.unsubscribe(conversationId, subscription);
+      }
+    };
+  }
+
+  /**
+   * Adopts a refreshed token, reconnecting the open connection with it from the last event
+   * received. Subscriptions are kept.
+   * @param {string} token - Refreshed authentication token
+   */
+  updateToken(token: string): void {
+    if (token === this.currentToken) {
+      return;
+    }
+
+    this.currentToken = token;
+    const previous = this.stream;
+    if (previous) {
+      this.logger.debug('Reconnecting shared event stream with the refreshed token');
+      // The replaced connection closing is not passed on to the subscriptions
+      this.stream = undefined;
+      this.lastEventId = previous.lastEventId || this.lastEventId;
+      Object.assign(this.lastEntryTimestamps, previous.lastEntryTimestamps);
+      previous.close();
+      this.open();
+    }
+  }
+
+  /**
+   * Closes the shared connection and removes every subscription, calling their close handlers.
+   */
+  close(): void {
+    if (this.stream) {
+      this.stream.close();
+    } else {
+      this.release('closed');
+    }
+  }
+
+  /**
+   * Opens the shared connection, resuming after the last event received.
+   */
+  private open(): void {
+    const lastEntryTimestamps: Record<string, number> = {};
+    for (const conversationId of this.subscriptions.keys()) {
+      if (this.lastEntryTimestamps[conversationId] !== undefined) {
+        lastEntryTimestamps[conversationId] = this.lastEntryTimestamps[conversationId];
+      }
+    }
+
+    const stream: EventStream = this.eventService.createEventSourceStream(this.currentToken, {
+      ...this.options,
+      lastEventId: this.lastEventId,
+      lastEntryTimestamps,
+      onEvent: event => {
+        const parsed = parseEventEntry(event);
+        if (parsed) {
+          this.dispatch(parsed.conversationId, handlers => handlers.onEvent?.(event));
+        }
+      },
+      onMessage: event =>
+        this.dispatch(event.conversationId, handlers => handlers.onMessage?.(event)),
+      onTyping: event =>
+        this.dispatch(event.conversationId, handlers => handlers.onTyping?.(event)),
+      onRoutingResult: event =>
+        this.dispatch(event.conversationId, handlers => handlers.onRoutingResult?.(event)),
+      onParticipantChanged: event =>
+        this.dispatch(event.conversationId, handlers => handlers.onParticipantChanged?.(event)),
+      onReceipt: event =>
+        this.dispatch(event.conversationId, handlers => handlers.onReceipt?.(event)),
+      onCloseConversation: event =>
+        this.dispatch(event.conversationId, handlers => handlers.onCloseConversation?.(event)),
+      onClose: (reason, error) => {
+        if (this.stream === stream) {
+          this.lastEventId = stream.lastEventId || this.lastEventId;
+          Object.assign(this.lastEntryTimestamps, stream.lastEntryTimestamps);
+          this.stream = undefined;
+          this.options.onClose?.(reason, error);
+          this.release(reason, error);
+        }
+      },
+    });
+    this.stream = stream;
+  }
+
+  /**
+   * Removes a subscription, closing the shared connection once none are left.
+   * @param {string} conversationId - ID of the conversation
+   * @param {ConversationEventHandlers} subscription - Subscription to remove
+   */
+  private unsubscribe(conversationId: string, subscription: ConversationEventHandlers): void {
+    const subscriptions = this.subscriptions.get(conversationId);
+    if (!subscriptions?.delete(subscription)) {
+      return;
+    }
+    if (!subscriptions.size) {
+      this.subscriptions.delete(conversationId);
+    }
+    this.logger.debug(`Unsubscribed from events of conversation ${conversationId}`);
+
+    if (this.subscriptionCount === 0 && this.stream) {
+      this.logger.info('Closing shared event stream without subscriptions');
+      this.stream.close();
+    }
+  }
+
+  /**
+   * Removes every subscription after the shared connection closed, calling their close handlers.
+   * @param {EventStreamCloseReason} reason - Why the connection closed
+   * @param {EventStreamError} [error] - Error that closed the connection, if any
+   */
+  private release(reason: EventStreamCloseReason, error?: EventStreamError): void {
+    const subscriptions = [...this.subscriptions.values()].flatMap(handlers => [...handlers]);
+    this.subscriptions.clear();
+    this.onIdle();
+
+    for (const handlers of subscriptions) {
+      handlers.onClose?.(reason, error);
+    }
+  }
+
+  /**
+   * Calls a handler of every subscription to a conversation.
+   * @param {string} conversationId - ID of the conversation the event belongs to
+   * @param {(handlers: ConversationEventHandlers) => void} call - Calls the handler for the event
+   */
+  private dispatch(
+    conversationId: string,
+    call: (handlers: ConversationEventHandlers) => void
+  ): void {
+    for (const handlers of [...(this.subscriptions.get(conversationId) || [])]) {
+      call(handlers);
+    }
+  }
+}
@@ -0,0 +1,195 @@
+/// <reference types="jest" />
+import { jest } from '@jest/globals';
+import { EventService } from '../../services/EventService.js';
+import type { EventStream } from '../../services/EventService.js';
+import type { ConversationStreamEvent, Logger, MessageEntry, SSEOptions } from '../../types.js';
+
+function createJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
+
+function messageEvent(conversationId: string): ConversationStreamEvent<MessageEntry> {
+  return { conversationId, entry: { id: 'm1' } } as ConversationStreamEvent<MessageEntry>;
+}
+
+describe('EventHub', () => {
+  let service: EventService;
+  let createStream: jest.SpiedFunction<EventService['createEventSourceStream']>;
+  let streams: Array<{
+    options: SSEOptions;
+    close: jest.Mock;
+    lastEventId?: string;
+    lastEntryTimestamps: Record<string, number>;
+  }>;
+
+  beforeEach(() => {
+    const mockLogger: Logger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    service = new EventService('https://test.com', 'test-org', mockLogger);
+    streams = [];
+    createStream = jest
+      .spyOn(service, 'createEventSourceStream')
+      .mockImplementation((_token, options) => {
+        const stream = {
+          options,
+          readyState: 'open',
+          lastEventId: undefined as string | undefined,
+          lastEntryTimestamps: {},
+          close: jest.fn(() => {
+            stream.readyState = 'closed';
+            options.onClose?.('closed');
+          }),
+        };
+        streams.push(stream);
+        return stream as unknown as EventStream;
+      });
+  });
+
+  it('should share one connection and pass events to the subscriptions of their conversation', () => {
+    const hub = service.hub('test-token', { reconnect: true });
+    const first = { onMessage: jest.fn(), onEvent: jest.fn() };
+    const second = { onMessage: jest.fn() };
+
+    hub.subscribe('conv-1', first);
+    service.hub('test-token').subscribe('conv-2', second);
+
+    expect(service.hub('test-token')).toBe(hub);
+    expect(createStream).toHaveBeenCalledTimes(1);
+    expect(createStream).toHaveBeenCalledWith(
+      'test-token',
+      expect.objectContaining({ reconnect: true, lastEntryTimestamps: {} })
+    );
+    expect(hub.subscriptionCount).toBe(2);
+
+    const event = messageEvent('conv-1');
+    streams[0].options.onMessage?.(event);
+    streams[0].options.onEvent?.({
+      event: 'CONVERSATION_MESSAGE',
+      data: JSON.stringify({ conversationId: 'conv-2', conversationEntry: { identifier: 'm2' } }),
+    });
+
+    expect(first.onMessage).toHaveBeenCalledWith(event);
+    expect(first.onEvent).not.toHaveBeenCalled();
+    expect(second.onMessage).not.toHaveBeenCalled();
+  });
+
+  it('should close the connection once the last subscription is removed', () => {
+    const hub = service.hub('test-token');
+    const handlers = { onClose: jest.fn() };
+    const unsubscribeFirst = hub.subscribe('conv-1', handlers);
+    const unsubscribeSecond = hub.subscribe('conv-1', handlers);
+
+    unsubscribeFirst();
+    unsubscribeFirst();
+    expect(streams[0].close).not.toHaveBeenCalled();
+    expect(hub.subscriptionCount).toBe(1);
+
+    unsubscribeSecond();
+    expect(streams[0].close).toHaveBeenCalledTimes(1);
+    expect(hub.readyState).toBe('closed');
+    expect(handlers.onClose).not.toHaveBeenCalled();
+    expect(service.hub('test-token')).not.toBe(hub);
+  });
+
+  it('should reopen from the last event when subscribed to again', () => {
+    const hub = service.hub('test-token');
+    const unsubscribe = hub.subscribe('conv-1', {});
+    streams[0].lastEventId = 'event-2';
+    streams[0].lastEntryTimestamps = { 'conv-1': 1500 };
+    unsubscribe();
+
+    hub.subscribe('conv-2', {});
+    expect(createStream).toHaveBeenLastCalledWith(
+      'test-token',
+      expect.objectContaining({ lastEventId: 'event-2', lastEntryTimestamps: {} })
+    );
+    streams[1].close();
+
+    hub.subscribe('conv-1', {});
+    expect(createStream).toHaveBeenCalledTimes(3);
+    expect(createStream).toHaveBeenLastCalledWith(
+      'test-token',
+      expect.objectContaining({ lastEventId: 'event-2', lastEntryTimestamps: { 'conv-1': 1500 } })
+    );
+    expect(service.hub('test-token')).toBe(hub);
+  });
+
+  it('should register one hub per token before connecting', () => {
+    const hub = service.hub('test-token');
+    expect(service.hub('test-token')).toBe(hub);
+
+    hub.subscribe('conv-1', {});
+    streams[0].close();
+    const replacement = service.hub('test-token');
+    expect(replacement).not.toBe(hub);
+
+    // The replaced hub hands new subscriptions to the registered one
+    hub.subscribe('conv-1', {});
+    replacement.subscribe('conv-2', {});
+    expect(createStream).toHaveBeenCalledTimes(2);
+    expect(replacement.subscriptionCount).toBe(2);
+    expect(hub.subscriptionCount).toBe(0);
+  });
+
+  it('should keep separate hubs for tokens of the same end user', () => {
+    const token = createJwt({ sub: 'user-1', exp: 1000 });
+    const otherDeviceToken = createJwt({ sub: 'user-1', exp: 2000 });
+    const hub = service.hub(token);
+    hub.subscribe('conv-1', {});
+
+    const otherHub = service.hub(otherDeviceToken);
+
+    expect(otherHub).not.toBe(hub);
+    expect(streams[0].close).not.toHaveBeenCalled();
+    expect(createStream).toHaveBeenCalledTimes(1);
+  });
+
+  it('should move the hub to a refreshed token and reconnect with it', () => {
+    const hub = service.hub('test-token');
+    const handlers = { onClose: jest.fn(), onMessage: jest.fn() };
+    hub.subscribe('conv-1', handlers);
+    streams[0].lastEventId = 'event-2';
+    streams[0].lastEntryTimestamps = { 'conv-1': 1500 };
+
+    service.updateHubToken('test-token', 'refreshed-token');
+
+    expect(service.hub('refreshed-token')).toBe(hub);
+    expect(hub.token).toBe('refreshed-token');
+    expect(streams[0].close).toHaveBeenCalled();
+    expect(createStream).toHaveBeenCalledTimes(2);
+    expect(createStream).toHaveBeenLastCalledWith(
+      'refreshed-token',
+      expect.objectContaining({ lastEventId: 'event-2', lastEntryTimestamps: { 'conv-1': 1500 } })
+    );
+    expect(handlers.onClose).not.toHaveBeenCalled();
+    expect(hub.subscriptionCount).toBe(1);
+
+    const event = messageEvent('conv-1');
+    streams[1].options.onMessage?.(event);
+    expect(handlers.onMessage).toHaveBeenCalledWith(event);
+
+    // The replaced token no longer leads to the hub
+    expect(service.hub('test-token')).not.toBe(hub);
+    expect(createStream).toHaveBeenCalledTimes(2);
+  });
+
+  it('should remove every subscription when the connection closes', () => {
+    const onHubClose = jest.fn();
+    const hub = service.hub('test-token', { onClose: onHubClose });
+    const handlers = { onClose: jest.fn() };
+    hub.subscribe('conv-1', handlers);
+
+    const error = new Error('token expired');
+    streams[0].options.onClose?.('error', error as never);
+
+    expect(onHubClose).toHaveBeenCalledWith('error', error);
+    expect(handlers.onClose).toHaveBeenCalledWith('error', error);
+    expect(hub.subscriptionCount).toBe(0);
+    expect(service.hub('test-token')).not.toBe(hub);
+  });
+});
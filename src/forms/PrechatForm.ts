@@ -0,0 +1,197 @@
+import type {
+  DeploymentConfiguration,
+  HiddenPrechatFieldDefinition,
+  PrechatFieldDefinition,
+  PrechatFormDefinition
+} from '../types';
+import { createValidationError, type ValidationIssue } from '../utils/error';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[\d\s().-]{3,}$/;
+
+/**
+ * Builder for pre-chat form values based on a deployment's pre-chat field definitions.
+ * Validates values against the field definitions and produces the `routingAttributes`
+ * object expected when creating a conversation.
+ */
+export class PrechatForm {
+  private values = new Map<string, unknown>();
+
+  constructor(private definition: PrechatFormDefinition) {}
+
+  /**
+   * Creates a pre-chat form from a deployment configuration.
+   * A deployment without a pre-chat form yields a form without fields.
+   * @param {DeploymentConfiguration} configuration - Deployment configuration
+   * @returns {PrechatForm} The pre-chat form
+   */
+  static fromConfiguration(configuration: DeploymentConfiguration): PrechatForm {
+    return new PrechatForm(configuration.prechatForm || { fields: [], hiddenFields: [] });
+  }
+
+  /** Fields shown to the end user, in display order */
+  get visibleFields(): PrechatFieldDefinition[] {
+    return this.definition.fields;
+  }
+
+  /** Fields populated by the client and never shown to the end user */
+  get hiddenFields(): HiddenPrechatFieldDefinition[] {
+    return this.definition.hiddenFields;
+  }
+
+  /**
+   * Sets the value of a visible or hidden field.
+   * @param {string} name - API name of the field
+   * @param {unknown} value - Value of the field
+   * @returns {PrechatForm} The form, for chaining
+   */
+  set(name: string, value: unknown): this {
+    this.values.set(name, value);
+    return this;
+  }
+
+  /**
+   * Sets the values of several fields at once.
+   * @param {Record<string, unknown>} values - Field values keyed by API name
+   * @returns {PrechatForm} The form, for chaining
+   */
+  setAll(values: Record<string, unknown>): this {
+    for (const [name, value] of Object.entries(values)) {
+      this.set(name, value);
+    }
+    return this;
+  }
+
+  /**
+   * Returns the value of a field.
+   * @param {string} name - API name of the field
+   * @returns {unknown} The value, if set
+   */
+  get(name: string): unknown {
+    return this.values.get(name);
+  }
+
+  /**
+   * Validates the current values against the field definitions.
+   * @returns {ValidationIssue[]} Problems found in the values, empty when the form is valid
+   */
+  validate(): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const knownFields = new Set([
+      ...this.visibleFields.map(field => field.name),
+      ...this.hiddenFields.map(field => field.name),
+    ]);
+
+    for (const name of this.values.keys()) {
+      if (!knownFields.has(name)) {
+        issues.push({
+          field: name,
+          code: 'unknown_field',
+          message: `${name} is not a pre-chat field`,
+        });
+      }
+    }
+
+    for (const field of this.visibleFields) {
+      const value = this.values.get(field.name);
+      if (isEmpty(value)) {
+        if (field.required) {
+          issues.push({
+            field: field.name,
+            code: 'required',
+            message: `${field.label} is required`,
+          });
+        }
+        continue;
+      }
+      issues.push(...validateValue(field.name, field.label, field.type, value, field));
+    }
+
+    for (const field of this.hiddenFields) {
+      const value = this.values.get(field.name);
+      if (!isEmpty(value)) {
+        issues.push(...validateValue(field.name, field.name, field.type || 'Text', value, field));
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Produces the routing attributes for conversation creation.
+   * @returns {Record<string, unknown>} Field values keyed by API name, without empty values
+   * @throws {ValidationError} If any value is invalid, listing every problem found
+   */
+  toRoutingAttributes(): Record<string, unknown> {
+    const issues = this.validate();
+    if (issues.length > 0) {
+      throw createValidationError('conversations.prechat_form', issues);
+    }
+
+    return Object.fromEntries(
+      [...this.values.entries()]
+        .filter(([, value]) => !isEmpty(value))
+        .map(([name, value]) => [name, typeof value === 'string' ? value.trim() : value])
+    );
+  }
+}
+
+/**
+ * Determines whether a field value counts as not filled in.
+ * @param {unknown} value - Field value
+ * @returns {boolean} indicating if the value is empty
+ */
+function isEmpty(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && !value.trim());
+}
+
+/**
+ * Validates a non-empty value against its field type and length limit.
+ * @param {string} name - API name of the field
+ * @param {string} label - Display label of the field
+ * @param {string} type - Type of the field
+ * @param {unknown} value - Field value
+ * @param {{ maxLength?: number; choices?: PrechatFieldDefinition['choices'] }} constraints - Field constraints
+ * @returns {ValidationIssue[]} Problems found in the value
+ */
+function validateValue(
+  name: string,
+  label: string,
+  type: string,
+  value: unknown,
+  constraints: { maxLength?: number; choices?: PrechatFieldDefinition['choices'] }
+): ValidationIssue[] {
+  const issue = (code: string, message: string): ValidationIssue[] => [
+    { field: name, code, message },
+  ];
+
+  switch (type) {
+    case 'Checkbox':
+      return typeof value === 'boolean'
+        ? []
+        : issue('invalid_type', `${label} must be true or false`);
+    case 'Number':
+      return (typeof value === 'number' && Number.isFinite(value)) ||
+        (typeof value === 'string' && Number.isFinite(Number(value)))
+        ? []
+        : issue('invalid_type', `${label} must be a number`);
+    case 'ChoiceList':
+      return constraints.choices && !constraints.choices.some(choice => choice.value === value)
+        ? issue('invalid_choice', `${label} must be one of the available options`)
+        : [];
+  }
+
+  if (typeof value !== 'string') {
+    return issue('invalid_type', `${label} must be text`);
+  }
+  if (constraints.maxLength !== undefined && value.trim().length > constraints.maxLength) {
+    return issue('max_length', `${label} must be at most ${constraints.maxLength} characters`);
+  }
+  if (type === 'Email' && !EMAIL_PATTERN.test(value.trim())) {
+    return issue('invalid_format', `${label} must be a valid email address`);
+  }
+  if (type === 'Phone' && !PHONE_PATTERN.test(value.trim())) {
+    return issue('invalid_format', `${label} must be a valid phone number`);
+  }
+  return [];
+}
@@ -0,0 +1,114 @@
+/// <reference types="jest" />
+import { PrechatForm } from '../PrechatForm.js';
+import type { DeploymentConfiguration, PrechatFormDefinition } from '../../types.js';
+
+const definition: PrechatFormDefinition = {
+  fields: [
+    {
+      name: '_firstName',
+      label: 'First Name',
+      type: 'Text',
+      required: true,
+      maxLength: 5,
+      order: 1,
+    },
+    { name: '_email', label: 'Email', type: 'Email', required: true, order: 2 },
+    { name: 'Phone', label: 'Phone', type: 'Phone', required: false, order: 3 },
+    {
+      name: 'Topic',
+      label: 'Topic',
+      type: 'ChoiceList',
+      required: false,
+      order: 4,
+      choices: [{ value: 'sales', label: 'Sales', order: 1, isDefault: false }],
+    },
+    { name: 'Subscribe', label: 'Subscribe', type: 'Checkbox', required: false, order: 5 },
+  ],
+  hiddenFields: [{ name: 'CartId', type: 'Text', maxLength: 4 }],
+};
+
+describe('PrechatForm', () => {
+  it('should separate visible and hidden fields', () => {
+    const form = new PrechatForm(definition);
+
+    expect(form.visibleFields.map(field => field.name)).toEqual([
+      '_firstName',
+      '_email',
+      'Phone',
+      'Topic',
+      'Subscribe',
+    ]);
+    expect(form.hiddenFields.map(field => field.name)).toEqual(['CartId']);
+  });
+
+  it('should produce routing attributes for valid values', () => {
+    const form = new PrechatForm(definition)
+      .set('_firstName', ' Ada ')
+      .set('_email', 'ada@example.com')
+      .setAll({ Topic: 'sales', Subscribe: true, CartId: '1234', Phone: '' });
+
+    expect(form.validate()).toEqual([]);
+    expect(form.toRoutingAttributes()).toEqual({
+      _firstName: 'Ada',
+      _email: 'ada@example.com',
+      Topic: 'sales',
+      Subscribe: true,
+      CartId: '1234',
+    });
+  });
+
+  it('should list every field problem in a validation error', () => {
+    const form = new PrechatForm(definition).setAll({
+      _firstName: 'Augusta',
+      Phone: 'call me',
+      Topic: 'support',
+      Subscribe: 'yes',
+      CartId: '12345',
+      Unknown: 'value',
+    });
+
+    expect(() => form.toRoutingAttributes()).toThrow(
+      expect.objectContaining({
+        type: 'validation_error',
+        operation: 'conversations.prechat_form',
+        issues: [
+          { field: 'Unknown', code: 'unknown_field', message: 'Unknown is not a pre-chat field' },
+          {
+            field: '_firstName',
+            code: 'max_length',
+            message: 'First Name must be at most 5 characters',
+          },
+          { field: '_email', code: 'required', message: 'Email is required' },
+          { field: 'Phone', code: 'invalid_format', message: 'Phone must be a valid phone number' },
+          {
+            field: 'Topic',
+            code: 'invalid_choice',
+            message: 'Topic must be one of the available options',
+          },
+          { field: 'Subscribe', code: 'invalid_type', message: 'Subscribe must be true or false' },
+          { field: 'CartId', code: 'max_length', message: 'CartId must be at most 4 characters' },
+        ],
+      })
+    );
+  });
+
+  it('should reject malformed email addresses', () => {
+    const form = new PrechatForm(definition).setAll({ _firstName: 'Ada', _email: 'ada@' });
+
+    expect(form.validate()).toEqual([
+      { field: '_email', code: 'invalid_format', message: 'Email must be a valid email address' },
+    ]);
+  });
+
+  it('should build an empty form for deployments without a pre-chat form', () => {
+    const form = PrechatForm.fromConfiguration({
+      name: 'test-dev',
+      deploymentType: 'Web',
+      branding: {},
+      attachments: { enabled: false },
+    } as DeploymentConfiguration);
+
+    expect(form.visibleFields).toEqual([]);
+    expect(form.toRoutingAttributes()).toEqual({});
+  });
+});
@@ -1,3 +1,95 @@
 export { MessagingInAppWebClient } from './MessagingInAppWeb';
-export { type Logger } from './types';
+export { type Session } from './services/SessionService';
+export { type EventStream } from './services/EventService';
+export { type EventHub } from './events/EventHub';
+export { type BusinessHours } from './services/BusinessHoursService';
+export { PrechatForm } from './forms/PrechatForm';
+export { Conversation, type ResumeResult } from './conversations/Conversation';
+export { InMemorySessionStore } from './stores/InMemorySessionStore';
+export {
+  type Logger,
+  type SessionStartParams,
+  type ResumeParams,
+  type SessionStream,
+  type SessionStore,
+  type SessionStoreKey,
+  type SessionRecord,
+  type TokenResult,
+  type TokenClaims,
+  type CustomerIdentity,
+  type CustomerIdentityProvider,
+  type DeviceRegistrationParams,
+  type ApnsDeviceRegistrationParams,
+  type FcmDeviceRegistrationParams,
+  type ConfigurationGetParams,
+  type DeploymentConfiguration,
+  type PrechatFormDefinition,
+  type PrechatFieldDefinition,
+  type HiddenPrechatFieldDefinition,
+  type ChoiceListValue,
+  type AttachmentSettings,
+  type BusinessHoursDefinition,
+  type BusinessHoursWindow,
+  type MessageParams,
+  type TextMessageParams,
+  type RichLinkMessageParams,
+  type ChoicesResponseMessageParams,
+  type FormResponseMessageParams,
+  type ChoiceOption,
+  type ChoiceSelectionParams,
+  type FormSubmissionParams,
+  type FormResponseValue,
+  type FileUploadParams,
+  type UploadLimits,
+  type UploadProgress,
+  type Attachment,
+  type AttachmentDownload,
+  type ConversationEntry,
+  type ConversationResponse,
+  type EntrySender,
+  type MessageEntry,
+  type MessageFormat,
+  type MessageLink,
+  type ParticipantChange,
+  type ParticipantChangedEntry,
+  type RoutingResultEntry,
+  type RoutingWorkResultEntry,
+  type CloseConversationEntry,
+  type AcknowledgementEntry,
+  type TypingIndicatorEntry,
+  type RawConversationEntry,
+  type ConversationEntryIterateParams,
+  type TranscriptFormat,
+  type TranscriptOptions,
+  type TranscriptEntry,
+  type TranscriptDocument,
+  type ConversationStatus,
+  type RoutingStatus,
+  type WaitForRoutingParams,
+  type ConversationListParams,
+  type ConversationSummary,
+  type ConversationParticipant,
+  type ConversationConnectParams,
+  type ConversationEvents,
+  type ConversationStreamEvent,
+  type EventStreamState,
+  type EventStreamCloseReason,
+  type EventHubOptions,
+  type ConversationEventHandlers,
+  type ReconnectPolicy,
+  type ReconnectAttempt,
+  type TypingState
+} from './types';
+export { renderTranscript, toTranscriptEntry } from './transcripts/transcript';
+export {
+  type MessagingInAppWebError,
+  type IdentityProviderError,
+  type BusinessHoursError,
+  type TimeoutError,
+  type AttachmentError,
+  type EventStreamError,
+  type EventStreamErrorCode,
+  type ValidationError,
+  type ValidationIssue
+} from './utils/error';
 export { default } from './MessagingInAppWeb';
@@ -0,0 +1,8 @@
+export { FileSessionStore } from './stores/FileSessionStore';
+export {
+  signCustomerIdentityToken,
+  verifyCustomerIdentityToken,
+  type IdentityTokenAlgorithm,
+  type IdentityTokenSignOptions,
+  type IdentityTokenVerifyOptions
+} from './utils/identityToken';
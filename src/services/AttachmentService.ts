@@ -0,0 +1,53 @@
+import type { Attachment, AttachmentDownload, Logger } from '../types';
+import { createAttachmentError } from '../utils/error';
+import { makeRequest } from '../utils/request';
+
+/**
+ * Service class for downloading files attached to conversation entries.
+ */
+export class AttachmentService {
+  constructor(
+    private baseUrl: string,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Downloads an attachment with the access token of the conversation it was sent in.
+   * The token is only sent to the API origin; attachment URLs on other hosts are fetched
+   * without credentials. The body is returned as a stream so it can be proxied without buffering the file.
+   * @param {string} token - Authentication token
+   * @param {Attachment} attachment - Attachment to download
+   * @returns {Promise<AttachmentDownload>} Promise containing the content type, length and body stream
+   */
+  async download(token: string, attachment: Attachment): Promise<AttachmentDownload> {
+    this.logger.debug(`Downloading attachment: ${attachment.id}`);
+
+    const url = new URL(attachment.url, this.baseUrl);
+    const sameOrigin = url.origin === new URL(this.baseUrl).origin;
+    const response = await makeRequest<Response>(
+      url.toString(),
+      {
+        method: 'GET',
+        headers: sameOrigin ? { Authorization: `Bearer ${token}` } : {},
+      },
+      'attachments.download_attachment',
+      this.logger
+    );
+
+    if (!response.body) {
+      throw createAttachmentError(
+        'attachments.download_attachment',
+        attachment.id,
+        'no content returned'
+      );
+    }
+
+    const contentLength = response.headers.get('Content-Length');
+    return {
+      contentType:
+        response.headers.get('Content-Type') || attachment.mimeType || 'application/octet-stream',
+      ...(contentLength ? { contentLength: Number(contentLength) } : {}),
+      stream: response.body as ReadableStream<Uint8Array>,
+    };
+  }
+}
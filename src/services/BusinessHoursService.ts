@@ -0,0 +1,189 @@
+import type { BusinessHoursDefinition, BusinessHoursWindow, Logger } from '../types';
+import type { BusinessHoursResponse } from '../types/api';
+import { createBusinessHoursError } from '../utils/error';
+import { makeRequest } from '../utils/request';
+
+const DEFAULT_CACHE_TTL = 300000;
+
+/**
+ * Service class for looking up the business hours of the deployment.
+ * Business hours are cached for the lifetime of the client, up to a TTL.
+ */
+export class BusinessHoursService {
+  private cached?: { businessHours: Promise<BusinessHours>; expiresAt: number };
+
+  constructor(
+    private baseUrl: string,
+    private orgId: string,
+    private developerName: string,
+    private logger: Logger,
+    private cacheTtl: number = DEFAULT_CACHE_TTL
+  ) {}
+
+  /**
+   * Retrieves the business hours of the deployment, using the cached copy while it is fresh.
+   * @returns {Promise<BusinessHours>} Promise containing the business hours
+   */
+  async get(): Promise<BusinessHours> {
+    if (this.cached && this.cached.expiresAt > Date.now()) {
+      this.logger.debug('Using cached business hours');
+      return this.cached.businessHours;
+    }
+
+    const businessHours = this.fetchBusinessHours();
+    const cached = { businessHours, expiresAt: Date.now() + this.cacheTtl };
+    this.cached = cached;
+    businessHours.catch(() => {
+      if (this.cached === cached) {
+        this.cached = undefined;
+      }
+    });
+
+    return businessHours;
+  }
+
+  /**
+   * Rejects if the deployment is currently outside business hours.
+   * @param {string} operation - Name of the operation being gated
+   * @returns {Promise<void>} Promise resolving when the deployment is open
+   * @throws {BusinessHoursError} If the deployment is closed
+   */
+  async assertOpen(operation: string): Promise<void> {
+    const businessHours = await this.get();
+    if (businessHours.isOpen()) {
+      return;
+    }
+
+    const error = createBusinessHoursError(operation, businessHours.nextOpening());
+    this.logger.warn(error.message);
+    throw error;
+  }
+
+  /**
+   * Fetches the business hours from the API.
+   * @returns {Promise<BusinessHours>} Promise containing the business hours
+   */
+  private async fetchBusinessHours(): Promise<BusinessHours> {
+    this.logger.debug('Retrieving business hours');
+
+    const queryParams = new URLSearchParams({
+      orgId: this.orgId,
+      esConfigName: this.developerName,
+    });
+
+    const response = await makeRequest<Response>(
+      `${this.baseUrl}/embeddedservice/v1/businesshours?${queryParams.toString()}`,
+      {
+        method: 'GET',
+      },
+      'businessHours.retrieve_business_hours',
+      this.logger
+    );
+
+    const responseData = (await response.json()) as BusinessHoursResponse;
+    return new BusinessHours(this.transformBusinessHours(responseData));
+  }
+
+  /**
+   * Extracts the business hours windows, ordered by start
+   * @param {BusinessHoursResponse} response - Raw response from the API
+   * @returns {BusinessHoursDefinition | undefined} The business hours, if configured
+   */
+  private transformBusinessHours(
+    response: BusinessHoursResponse
+  ): BusinessHoursDefinition | undefined {
+    const info = response.businessHoursInfo;
+    if (!info?.businessHours?.length) {
+      return undefined;
+    }
+
+    return {
+      timeZone: info.timeZone,
+      windows: info.businessHours
+        .map(window => ({ start: new Date(window.startTime), end: new Date(window.endTime) }))
+        .sort((a, b) => a.start.getTime() - b.start.getTime()),
+    };
+  }
+}
+
+/**
+ * Business hours of a deployment.
+ * Windows are absolute instants, so checks give the same answer in every time zone.
+ * A deployment without configured business hours is always open.
+ */
+export class BusinessHours {
+  /** Upcoming business hours windows, ordered by start */
+  readonly windows: BusinessHoursWindow[];
+  /** Time zone the business hours are defined in, if provided */
+  readonly timeZone?: string;
+
+  constructor(definition?: BusinessHoursDefinition) {
+    this.windows = definition?.windows || [];
+    this.timeZone = definition?.timeZone;
+  }
+
+  /** Whether business hours are configured for the deployment */
+  get isConfigured(): boolean {
+    return this.windows.length > 0;
+  }
+
+  /**
+   * Checks whether the deployment is open at a given time.
+   * @param {Date} [at] - Time to check (defaults to now)
+   * @returns {boolean} indicating if the time falls within a business hours window
+   */
+  isOpen(at: Date = new Date()): boolean {
+    if (!this.isConfigured) {
+      return true;
+    }
+    return !!this.windowAt(at);
+  }
+
+  /**
+   * Finds the start of the next business hours window.
+   * @param {Date} [after] - Time to search from (defaults to now)
+   * @returns {Date | undefined} The time the deployment opens, now if it is already open,
+   * or undefined if no further windows are known
+   */
+  nextOpening(after: Date = new Date()): Date | undefined {
+    if (!this.isConfigured || this.windowAt(after)) {
+      return after;
+    }
+    return this.windows.find(window => window.start.getTime() > after.getTime())?.start;
+  }
+
+  /**
+   * Finds the end of the current business hours window.
+   * @param {Date} [at] - Time to check (defaults to now)
+   * @returns {Date | undefined} The time the deployment closes, or undefined if it is closed or always open
+   */
+  nextClosing(at: Date = new Date()): Date | undefined {
+    return this.windowAt(at)?.end;
+  }
+
+  /**
+   * Formats a time in the business hours time zone, or the local time zone if none is provided.
+   * @param {Date} date - Time to format
+   * @param {string} [locale] - Locale to format in
+   * @returns {string} The formatted time
+   */
+  format(date: Date, locale?: string): string {
+    return date.toLocaleString(locale, {
+      timeZone: this.timeZone,
+      dateStyle: 'medium',
+      timeStyle: 'short',
+    });
+  }
+
+  /**
+   * Finds the window containing a time.
+   * @param {Date} at - Time to check
+   * @returns {BusinessHoursWindow | undefined} The window, if any
+   */
+  private windowAt(at: Date): BusinessHoursWindow | undefined {
+    const time = at.getTime();
+    return this.windows.find(
+      window => window.start.getTime() <= time && time < window.end.getTime()
+    );
+  }
+}
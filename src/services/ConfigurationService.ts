@@ -0,0 +1,165 @@
+import type {
+  ConfigurationGetParams,
+  DeploymentConfiguration,
+  Logger,
+  PrechatFormDefinition
+} from '../types';
+import type { EmbeddedServiceConfigResponse } from '../types/api';
+import { makeRequest } from '../utils/request';
+
+const DEFAULT_CACHE_TTL = 300000;
+
+interface CacheEntry {
+  /** Pending or settled configuration request */
+  configuration: Promise<DeploymentConfiguration>;
+  /** Epoch ms after which the entry is stale */
+  expiresAt: number;
+}
+
+/**
+ * Service class for retrieving the embedded service deployment configuration.
+ * Configurations are cached per language for the lifetime of the client, up to a TTL.
+ */
+export class ConfigurationService {
+  private cache = new Map<string, CacheEntry>();
+
+  constructor(
+    private baseUrl: string,
+    private orgId: string,
+    private developerName: string,
+    private logger: Logger,
+    private cacheTtl: number = DEFAULT_CACHE_TTL
+  ) {}
+
+  /**
+   * Retrieves the deployment configuration, using the cached copy while it is fresh.
+   * @param {ConfigurationGetParams} params - Optional language and cache options
+   * @returns {Promise<DeploymentConfiguration>} Promise containing the deployment configuration
+   */
+  async get(params: ConfigurationGetParams = {}): Promise<DeploymentConfiguration> {
+    const cacheKey = params.language || '';
+    const cached = this.cache.get(cacheKey);
+
+    if (cached && !params.forceRefresh && cached.expiresAt > Date.now()) {
+      this.logger.debug('Using cached deployment configuration');
+      return cached.configuration;
+    }
+
+    const configuration = this.fetchConfiguration(params.language);
+    this.cache.set(cacheKey, { configuration, expiresAt: Date.now() + this.cacheTtl });
+    configuration.catch(() => {
+      if (this.cache.get(cacheKey)?.configuration === configuration) {
+        this.cache.delete(cacheKey);
+      }
+    });
+
+    return configuration;
+  }
+
+  /**
+   * Fetches the deployment configuration from the API.
+   * @param {string} [language] - Language to retrieve labels in
+   * @returns {Promise<DeploymentConfiguration>} Promise containing the deployment configuration
+   */
+  private async fetchConfiguration(language?: string): Promise<DeploymentConfiguration> {
+    this.logger.debug('Retrieving deployment configuration');
+
+    const queryParams = new URLSearchParams({
+      orgId: this.orgId,
+      esConfigName: this.developerName,
+      ...(language ? { language } : {}),
+    });
+
+    const response = await makeRequest<Response>(
+      `${this.baseUrl}/embeddedservice/v1/embedded-service-config?${queryParams.toString()}`,
+      {
+        method: 'GET',
+      },
+      'configuration.retrieve_embedded_service_config',
+      this.logger
+    );
+
+    const responseData = (await response.json()) as EmbeddedServiceConfigResponse;
+    return this.transformConfigResponse(responseData);
+  }
+
+  /**
+   * Transforms a raw embedded service configuration into the typed deployment model
+   * @param {EmbeddedServiceConfigResponse} response - Raw response from the API
+   * @returns {DeploymentConfiguration} Transformed configuration
+   */
+  private transformConfigResponse(
+    response: EmbeddedServiceConfigResponse
+  ): DeploymentConfiguration {
+    const config = response.embeddedServiceConfig;
+    const channel = config.embeddedServiceMessagingChannel;
+    const fileTransfer = channel?.fileTransfer;
+
+    return {
+      name: config.name,
+      deploymentType: config.deploymentType,
+      channelAddressIdentifier: channel?.channelAddressIdentifier,
+      authMode: channel?.authMode,
+      prechatForm: this.transformPrechatForm(response),
+      branding: Object.fromEntries((config.branding || []).map(token => [token.n, token.v])),
+      attachments: {
+        enabled: !!fileTransfer?.enableFileUpload,
+        allowedFileTypes: fileTransfer?.allowedFileTypes
+          ?.split(',')
+          .map(type => type.trim())
+          .filter(Boolean),
+        maxFileSize: fileTransfer?.maxFileSize,
+      },
+    };
+  }
+
+  /**
+   * Extracts the pre-chat form and resolves the choice lists its fields reference
+   * @param {EmbeddedServiceConfigResponse} response - Raw response from the API
+   * @returns {PrechatFormDefinition | undefined} The pre-chat form, if one is configured
+   */
+  private transformPrechatForm(
+    response: EmbeddedServiceConfigResponse
+  ): PrechatFormDefinition | undefined {
+    const config = response.embeddedServiceConfig;
+    const form = config.forms?.find(candidate => candidate.formType === 'PreChat');
+    if (!form) {
+      return undefined;
+    }
+
+    const choiceLists = new Map(
+      (config.choiceListConfig?.choiceList || []).map(list => [
+        list.choiceListId,
+        (list.choiceListValues || [])
+          .map(choice => ({
+            value: choice.choiceListValueName,
+            label: choice.label || choice.choiceListValueName,
+            order: choice.order ?? 0,
+            isDefault: !!choice.isDefaultValue,
+          }))
+          .sort((a, b) => a.order - b.order),
+      ])
+    );
+
+    return {
+      displayContext: form.displayContext,
+      displayFrequency: form.displayFrequency,
+      fields: (form.formFields || [])
+        .map(field => ({
+          name: field.name,
+          label: field.label || field.name,
+          type: field.type,
+          required: !!field.required,
+          maxLength: field.maxLength,
+          order: field.order ?? 0,
+          choices: field.choiceListId ? choiceLists.get(field.choiceListId) : undefined,
+        }))
+        .sort((a, b) => a.order - b.order),
+      hiddenFields: (form.hiddenFormFields || []).map(field => ({
+        name: field.name,
+        type: field.type,
+        maxLength: field.maxLength,
+      })),
+    };
+  }
+}
@@ -3,18 +3,53 @@ import type {
   Logger,
   ConversationCreateParams,
   MessageParams,
+  ChoiceSelectionParams,
+  FormSubmissionParams,
+  FileUploadParams,
+  UploadLimits,
   ConversationEntryListParams,
+  ConversationEntryIterateParams,
+  ConversationListParams,
+  ConversationSummary,
   ConversationEntry,
+  TranscriptDocument,
   ConversationStatus,
+  RoutingStatus,
+  WaitForRoutingParams,
   ConversationResponse,
   ReceiptParams
 } from '../types';
 import { makeRequest } from '../utils/request';
+import {
+  createTimeoutError,
+  createValidationError,
+  type MessagingInAppWebError,
+  type ValidationIssue
+} from '../utils/error';
+import { buildMessagePayload, validateMessageParams } from '../utils/messages';
+import { createMultipartBody } from '../utils/multipart';
+import { mapConcurrently } from '../utils/concurrency';
+import { getEntryTimestamp, parseConversationEntry } from '../utils/entries';
+import { decodeJwt } from '../utils/jwt';
+import { toTranscriptEntry } from '../transcripts/transcript';
 import type {
   ConversationRoutingStatusResponse,
   ConversationEntryResponse,
+  ConversationListItemData,
+  ConversationListResponse,
   MessageResponse,
 } from '../types/api';
+import type { EventService } from './EventService';
+
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_POLL_INTERVAL = 5000;
+const SUMMARY_CONCURRENCY = 4;
+const ROUTING_STATUSES: RoutingStatus[] = ['Initial', 'Waiting', 'Transfer', 'Routed', 'Closed'];
+const ROUTING_EVENTS = [
+  'CONVERSATION_ROUTING_RESULT',
+  'CONVERSATION_PARTICIPANT_CHANGED',
+  'CONVERSATION_CLOSE_CONVERSATION',
+];
 
 /**
  * Service class for managing conversations with the Messaging In-App and Web API.
@@ -25,7 +60,9 @@ export class ConversationService {
     private baseUrl: string,
     private developerName: string,
     private logger: Logger,
-    private orgId: string
+    private orgId: string,
+    private uploadLimits: UploadLimits = {},
+    private eventService?: EventService
   ) {}
 
   /**
@@ -123,31 +160,161 @@ export class ConversationService {
     );
 
     const responseData = (await response.json()) as ConversationRoutingStatusResponse;
-    return {
-      id: conversationId,
-      status: responseData.routingStatus,
-      lastActivityTimestamp: new Date().toISOString(),
-      isActive: true,
-    };
+    return this.transformStatusResponse(conversationId, responseData);
+  }
+
+  /**
+   * Waits until a conversation reaches a routing status, such as being routed to an agent.
+   * Routing events for the conversation on the token's shared event hub trigger an immediate
+   * status check, and the status is also polled so the wait completes even if the event stream is unavailable.
+   * @param {string} token - Authentication token
+   * @param {string} conversationId - ID of the conversation
+   * @param {WaitForRoutingParams} params - Statuses to wait for, timeout and cancellation signal
+   * @returns {Promise<ConversationStatus>} Promise resolving with the status that ended the wait
+   * @throws {TimeoutError} If the timeout passes first
+   */
+  async waitForRouting(
+    token: string,
+    conversationId: string,
+    params: WaitForRoutingParams = {}
+  ): Promise<ConversationStatus> {
+    const until = new Set(Array.isArray(params.until) ? params.until : [params.until || 'Routed']);
+    const pollInterval = params.pollInterval ?? DEFAULT_POLL_INTERVAL;
+    const { signal } = params;
+
+    signal?.throwIfAborted();
+    this.logger.debug(
+      `Waiting for conversation ${conversationId} to reach ${[...until].join(', ')}`
+    );
+
+    return new Promise<ConversationStatus>((resolve, reject) => {
+      let settled = false;
+      let checking = false;
+      let recheck = false;
+      let pollTimer: ReturnType<typeof setTimeout> | undefined;
+      let unsubscribe: (() => void) | undefined;
+
+      const finish = (complete: () => void): void => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(pollTimer);
+        clearTimeout(timeoutTimer);
+        signal?.removeEventListener('abort', onAbort);
+        unsubscribe?.();
+        complete();
+      };
+
+      const check = async (): Promise<void> => {
+        if (checking) {
+          recheck = true;
+          return;
+        }
+        checking = true;
+        clearTimeout(pollTimer);
+
+        try {
+          const status = await this.status(token, conversationId);
+          if (until.has(status.status) || !status.isActive) {
+            finish(() => resolve(status));
+          }
+        } catch (error) {
+          const statusCode = (error as MessagingInAppWebError).statusCode;
+          if (statusCode && statusCode >= 400 && statusCode < 500 && statusCode !== 429) {
+            finish(() => reject(error));
+          } else {
+            this.logger.warn(`Retrying routing status check for ${conversationId}`, error);
+          }
+        } finally {
+          checking = false;
+        }
+
+        if (!settled) {
+          if (recheck) {
+            recheck = false;
+            void check();
+          } else {
+            pollTimer = setTimeout(() => void check(), pollInterval);
+          }
+        }
+      };
+
+      const onAbort = (): void => finish(() => reject(signal?.reason));
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      const timeoutTimer =
+        params.timeout !== undefined
+          ? setTimeout(
+              () => finish(() => reject(createTimeoutError('conversations.wait_for_routing'))),
+              params.timeout
+            )
+          : undefined;
+
+      if (this.eventService) {
+        try {
+          // The hub passes on only the events whose entry belongs to this conversation
+          unsubscribe = this.eventService.hub(token).subscribe(conversationId, {
+            onEvent: event => {
+              if (ROUTING_EVENTS.includes(event.event || '')) {
+                void check();
+              }
+            },
+          });
+        } catch (error) {
+          this.logger.warn('Falling back to polling for routing status', error);
+        }
+      }
+
+      void check();
+    });
+  }
+
+  /**
+   * Retrieves the transcript document Salesforce generates for a conversation.
+   * @param {string} token - Authentication token
+   * @param {string} conversationId - ID of the conversation
+   * @returns {Promise<TranscriptDocument>} Promise containing the document's content type and body
+   */
+  async transcript(token: string, conversationId: string): Promise<TranscriptDocument> {
+    this.logger.debug(`Retrieving transcript for conversation: ${conversationId}`);
+
+    const response = await makeRequest<Response>(
+      `${this.baseUrl}/iamessage/api/v2/conversation/${conversationId}/transcript?esDeveloperName=${this.developerName}`,
+      {
+        method: 'GET',
+        headers: {
+          Accept: 'application/pdf',
+          Authorization: `Bearer ${token}`,
+        },
+      },
+      'conversations.retrieve_transcript',
+      this.logger
+    );
+
+    return this.transformTranscriptResponse(response);
   }
 
   /**
    * Sends a message in a conversation.
    * @param {string} token - Authentication token
    * @param {string} conversationId - ID of the conversation
-   * @param {MessageParams} params - Message parameters including text content
+   * @param {MessageParams} params - Message parameters for a text, rich link, choices or form response
    * @returns {Promise<ConversationEntry>} Promise containing the created conversation entry
-   * @throws {Error} if message text is empty
+   * @throws {ValidationError} if the fields required by the message format are missing
    */
   async sendMessage(
     token: string,
     conversationId: string,
     params: MessageParams
   ): Promise<ConversationEntry> {
-    if (!params.text) {
-      throw new Error('Message text is required');
+    const issues = validateMessageParams(params);
+    if (issues.length > 0) {
+      throw createValidationError('conversations.send_message', issues);
     }
 
+    const message = buildMessagePayload(params, params.id || randomUUID().toLowerCase());
+
     const response = await makeRequest<Response>(
       `${this.baseUrl}/iamessage/api/v2/conversation/${conversationId}/message`,
       {
@@ -157,14 +324,7 @@ export class ConversationService {
           Authorization: `Bearer ${token}`,
         },
         body: {
-          message: {
-            id: params.id || randomUUID().toLowerCase(),
-            messageType: 'StaticContentMessage',
-            staticContent: {
-              formatType: 'Text',
-              text: params.text,
-            },
-          },
+          message,
           esDeveloperName: this.developerName,
           isNewMessagingSession: params.isNewSession,
           ...(params.routingAttributes ? { routingAttributes: params.routingAttributes } : {}),
@@ -176,18 +336,139 @@ export class ConversationService {
     );
 
     const responseData = (await response.json()) as MessageResponse;
-    const entry = responseData.conversationEntries[0];
+    return this.transformSentMessage(token, responseData, message);
+  }
 
-    return {
-      id: entry.id,
-      type: 'Message',
-      text: params.text,
-      timestamp: new Date(entry.clientTimestamp).toISOString(),
-      sender: {
-        id: 'user',
-        type: 'endUser',
-      },
+  /**
+   * Answers a choices message, such as bot buttons or quick replies, with the selected options.
+   * @param {string} token - Authentication token
+   * @param {string} conversationId - ID of the conversation
+   * @param {ChoiceSelectionParams} params - The choices message being answered and the selected options
+   * @returns {Promise<ConversationEntry>} Promise containing the created conversation entry
+   * @throws {ValidationError} if the message being answered or the selection is missing
+   */
+  async sendChoice(
+    token: string,
+    conversationId: string,
+    params: ChoiceSelectionParams
+  ): Promise<ConversationEntry> {
+    return this.sendMessage(token, conversationId, { ...params, format: 'ChoicesResponse' });
+  }
+
+  /**
+   * Answers a form message with the values submitted by the end user.
+   * @param {string} token - Authentication token
+   * @param {string} conversationId - ID of the conversation
+   * @param {FormSubmissionParams} params - The form message being answered and the submitted values
+   * @returns {Promise<ConversationEntry>} Promise containing the created conversation entry
+   * @throws {ValidationError} if the message being answered or the values are missing
+   */
+  async sendFormResponse(
+    token: string,
+    conversationId: string,
+    params: FormSubmissionParams
+  ): Promise<ConversationEntry> {
+    return this.sendMessage(token, conversationId, { ...params, format: 'FormResponse' });
+  }
+
+  /**
+   * Uploads a file to a conversation as a multipart request.
+   * Blob and Buffer files are checked against the upload limits before sending; streams are
+   * checked against their declared size, and the upload is aborted if they exceed the size limit.
+   * @param {string} token - Authentication token
+   * @param {string} conversationId - ID of the conversation
+   * @param {FileUploadParams} params - File content, name, MIME type and optional text
+   * @returns {Promise<ConversationEntry>} Promise containing the created conversation entry
+   * @throws {ValidationError} if the file is missing details or exceeds the upload limits
+   */
+  async sendFile(
+    token: string,
+    conversationId: string,
+    params: FileUploadParams
+  ): Promise<ConversationEntry> {
+    const total =
+      params.file instanceof Blob
+        ? params.file.size
+        : params.file instanceof Uint8Array
+          ? params.file.byteLength
+          : params.size;
+
+    const issues = this.validateUpload(params, total);
+    if (issues.length > 0) {
+      throw createValidationError('conversations.upload_file', issues);
+    }
+
+    const maxFileSize = this.uploadLimits.maxFileSize;
+    let loaded = 0;
+    let sizeError: Error | undefined;
+
+    const message = {
+      id: params.id || randomUUID().toLowerCase(),
+      fileId: randomUUID().toLowerCase(),
+      ...(params.text ? { text: params.text } : {}),
+      ...(params.inReplyToMessageId ? { inReplyToMessageId: params.inReplyToMessageId } : {}),
     };
+    const { body, contentType } = createMultipartBody(
+      [
+        {
+          name: 'messageEntry',
+          contentType: 'application/json',
+          content: JSON.stringify({ esDeveloperName: this.developerName, message }),
+        },
+        {
+          name: 'fileData',
+          fileName: params.fileName,
+          contentType: params.mimeType,
+          content: params.file,
+        },
+      ],
+      bytes => {
+        loaded += bytes;
+        if (maxFileSize !== undefined && loaded > maxFileSize) {
+          sizeError = createValidationError('conversations.upload_file', [
+            {
+              field: 'file',
+              code: 'max_size',
+              message: `File exceeds the maximum size of ${maxFileSize} bytes`,
+            },
+          ]);
+          throw sizeError;
+        }
+        params.onProgress?.({ loaded, total });
+      }
+    );
+
+    this.logger.debug(`Uploading ${params.fileName} to conversation: ${conversationId}`);
+
+    let response: Response;
+    try {
+      response = await makeRequest<Response>(
+        `${this.baseUrl}/iamessage/api/v2/conversation/${conversationId}/file`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': contentType,
+            Authorization: `Bearer ${token}`,
+          },
+          body,
+        },
+        'conversations.upload_file',
+        this.logger
+      );
+    } catch (error) {
+      throw sizeError || error;
+    }
+
+    const responseData = (await response.json()) as MessageResponse;
+    return this.transformSentMessage(token, responseData, {
+      id: message.id,
+      messageType: 'StaticContentMessage',
+      ...(params.inReplyToMessageId ? { inReplyToMessageId: params.inReplyToMessageId } : {}),
+      staticContent: {
+        formatType: 'Attachments',
+        ...(params.text ? { text: params.text } : {}),
+      },
+    });
   }
 
   /**
@@ -297,6 +578,350 @@ export class ConversationService {
     return this.transformListResponse(responseData);
   }
 
+  /**
+   * Lists the conversations of the end user the token belongs to, most recently active first.
+   * The latest entries of each conversation within the limit are fetched, a few at a time, to
+   * build its preview and unread count.
+   * @param {string} token - Authentication token
+   * @param {ConversationListParams} params - Optional closed conversation filter and limit
+   * @returns {Promise<ConversationSummary[]>} Promise containing the conversation summaries
+   */
+  async listAll(
+    token: string,
+    params: ConversationListParams = {}
+  ): Promise<ConversationSummary[]> {
+    this.logger.debug('Listing conversations');
+
+    const queryParams = new URLSearchParams({
+      inclClosedConvs: String(!!params.includeClosed),
+      ...(params.limit !== undefined ? { limit: params.limit.toString() } : {}),
+    });
+
+    const response = await makeRequest<Response>(
+      `${this.baseUrl}/iamessage/api/v2/conversation/list?${queryParams.toString()}`,
+      {
+        method: 'GET',
+        headers: { Authorization: `Bearer ${token}` },
+      },
+      'conversations.list_conversations',
+      this.logger
+    );
+
+    const responseData = (await response.json()) as ConversationListResponse;
+    const items = (responseData.conversations || [])
+      .filter(item => params.includeClosed || this.isActiveItem(item))
+      .sort((a, b) => (b.lastActiveTimestamp || 0) - (a.lastActiveTimestamp || 0))
+      .slice(0, params.limit);
+
+    const summaries = await mapConcurrently(items, SUMMARY_CONCURRENCY, async item => {
+      const page = await this.list(token, item.conversationId, {
+        limit: DEFAULT_PAGE_SIZE,
+        direction: 'FromEnd',
+      });
+      return this.transformConversationSummary(item, page.entries);
+    });
+
+    return summaries.sort(
+      (a, b) => Date.parse(b.lastActivity || '0') - Date.parse(a.lastActivity || '0')
+    );
+  }
+
+  /**
+   * Checks the file details against the configured upload limits.
+   * @param {FileUploadParams} params - File upload parameters
+   * @param {number} [size] - Size of the file in bytes, if known
+   * @returns {ValidationIssue[]} Problems found in the file details
+   */
+  private validateUpload(params: FileUploadParams, size?: number): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const { maxFileSize, allowedMimeTypes } = this.uploadLimits;
+
+    if (!params.file) {
+      issues.push({ field: 'file', code: 'required', message: 'File content is required' });
+    }
+    if (!params.fileName?.trim()) {
+      issues.push({ field: 'fileName', code: 'required', message: 'File name is required' });
+    }
+    if (!/^[\w.+-]+\/[\w.+-]+$/.test(params.mimeType || '')) {
+      issues.push({
+        field: 'mimeType',
+        code: 'invalid_format',
+        message: 'MIME type must be of the form type/subtype',
+      });
+    } else if (
+      allowedMimeTypes &&
+      !allowedMimeTypes.some(allowed => matchesMimeType(params.mimeType, allowed))
+    ) {
+      issues.push({
+        field: 'mimeType',
+        code: 'invalid_type',
+        message: `Files of type ${params.mimeType} are not allowed`,
+      });
+    }
+    if (size === 0) {
+      issues.push({ field: 'file', code: 'required', message: 'File is empty' });
+    }
+    if (maxFileSize !== undefined && size !== undefined && size > maxFileSize) {
+      issues.push({
+        field: 'file',
+        code: 'max_size',
+        message: `File exceeds the maximum size of ${maxFileSize} bytes`,
+      });
+    }
+
+    return issues;
+  }
+
+  /**
+   * Iterates over every entry of a conversation, requesting pages as the iteration advances.
+   * Each page moves the timestamp window past the last entry received. Entries sharing the
+   * boundary timestamp are requested again and skipped, so no entry is returned twice.
+   * @param {string} token - Authentication token
+   * @param {string} conversationId - ID of the conversation
+   * @param {ConversationEntryIterateParams} params - Optional direction, filter and page size
+   * @returns {AsyncGenerator<ConversationEntry>} Generator yielding the entries in order
+   */
+  iterateEntries(
+    token: string,
+    conversationId: string,
+    params: ConversationEntryIterateParams = {}
+  ): AsyncGenerator<ConversationEntry> {
+    return this.iterateEntriesFrom(
+      listParams => this.list(token, conversationId, listParams),
+      params
+    );
+  }
+
+  /**
+   * Iterates over every entry of a conversation like `iterateEntries`, requesting each page
+   * through a function, such as one that runs the request with a session's current token.
+   * @param {(params: ConversationEntryListParams) => Promise<ConversationResponse>} listEntries -
+   * Requests a page of the conversation's entries
+   * @param {ConversationEntryIterateParams} params - Optional direction, filter and page size
+   * @returns {AsyncGenerator<ConversationEntry>} Generator yielding the entries in order
+   */
+  async *iterateEntriesFrom(
+    listEntries: (params: ConversationEntryListParams) => Promise<ConversationResponse>,
+    params: ConversationEntryIterateParams = {}
+  ): AsyncGenerator<ConversationEntry> {
+    const direction = params.direction || 'FromStart';
+    const pageSize = params.pageSize || DEFAULT_PAGE_SIZE;
+    const forward = direction === 'FromStart';
+    let cursor = forward ? params.startTimestamp : params.endTimestamp;
+    let boundaryIds = new Set<string>();
+
+    while (!params.signal?.aborted) {
+      const page = await listEntries({
+        limit: pageSize,
+        direction,
+        entryTypeFilter: params.entryTypeFilter,
+        ...(cursor !== undefined
+          ? forward
+            ? { startTimestamp: cursor.toString() }
+            : { endTimestamp: cursor.toString() }
+          : {}),
+      });
+
+      let nextCursor = cursor;
+      let nextBoundaryIds = new Set(boundaryIds);
+      let yielded = 0;
+
+      for (const entry of page.entries) {
+        if (boundaryIds.has(entry.id)) {
+          continue;
+        }
+
+        const timestamp = getEntryTimestamp(entry);
+        if (nextCursor === undefined || timestamp !== nextCursor) {
+          nextCursor = timestamp;
+          nextBoundaryIds = new Set();
+        }
+        nextBoundaryIds.add(entry.id);
+
+        yielded++;
+        yield entry;
+      }
+
+      if (page.entries.length < pageSize || nextCursor === undefined) {
+        return;
+      }
+
+      if (yielded === 0) {
+        // A full page of entries sharing one timestamp; step past it so the iteration ends
+        this.logger.warn(`More than ${pageSize} entries share timestamp ${nextCursor}`);
+        nextCursor += forward ? 1 : -1;
+        nextBoundaryIds = new Set();
+      }
+
+      cursor = nextCursor;
+      boundaryIds = nextBoundaryIds;
+    }
+  }
+
+  /**
+   * Transforms a raw routing status response into a conversation status
+   * @param {string} conversationId - ID of the conversation
+   * @param {ConversationRoutingStatusResponse} response - Raw response from the API
+   * @returns {ConversationStatus} Transformed status
+   */
+  private transformStatusResponse(
+    conversationId: string,
+    response: ConversationRoutingStatusResponse
+  ): ConversationStatus {
+    const status = parseRoutingStatus(response.routingStatus);
+    const waitTime = response.estimatedWaitTime?.estimatedWaitTimeInSeconds;
+
+    return {
+      id: response.conversationId || conversationId,
+      status,
+      rawStatus: response.routingStatus,
+      ...(response.lastActivityTimestamp
+        ? { lastActivityTimestamp: new Date(response.lastActivityTimestamp).toISOString() }
+        : {}),
+      ...(waitTime !== undefined ? { estimatedWaitTime: waitTime } : {}),
+      isActive: status !== 'Closed' && response.conversationStatus?.toLowerCase() !== 'closed',
+    };
+  }
+
+  /**
+   * Checks whether a conversation from the list endpoint is still open.
+   * @param {ConversationListItemData} item - Conversation from the list endpoint
+   * @returns {boolean} indicating if the conversation is open
+   */
+  private isActiveItem(item: ConversationListItemData): boolean {
+    return (
+      parseRoutingStatus(item.routingStatus) !== 'Closed' &&
+      item.conversationStatus?.toLowerCase() !== 'closed'
+    );
+  }
+
+  /**
+   * Summarizes a conversation from the list endpoint and its latest entries.
+   * Messages the end user sent or read acknowledged mark everything before them as read.
+   * @param {ConversationListItemData} item - Conversation from the list endpoint
+   * @param {ConversationEntry[]} entries - Latest entries of the conversation
+   * @returns {ConversationSummary} The conversation summary
+   */
+  private transformConversationSummary(
+    item: ConversationListItemData,
+    entries: ConversationEntry[]
+  ): ConversationSummary {
+    const status = parseRoutingStatus(item.routingStatus);
+    const sorted = [...entries].sort((a, b) => getEntryTimestamp(a) - getEntryTimestamp(b));
+    const readIds = new Set(
+      sorted.flatMap(entry =>
+        entry.type === 'ReadAcknowledgement' && entry.sender.type === 'EndUser'
+          ? [entry.acknowledgedEntryId]
+          : []
+      )
+    );
+
+    let unreadCount = 0;
+    for (const entry of sorted) {
+      if (entry.type !== 'Message') {
+        continue;
+      }
+      if (entry.sender.type === 'EndUser' || readIds.has(entry.id)) {
+        unreadCount = 0;
+      } else {
+        unreadCount++;
+      }
+    }
+
+    const lastEntry = sorted
+      .map(entry => toTranscriptEntry(entry))
+      .filter(entry => entry !== undefined)
+      .pop();
+    const lastActivity = Math.max(
+      item.lastActiveTimestamp || 0,
+      sorted.length ? getEntryTimestamp(sorted[sorted.length - 1]) : 0
+    );
+
+    return {
+      id: item.conversationId,
+      status,
+      isActive: this.isActiveItem(item),
+      ...(lastEntry ? { lastEntry } : {}),
+      ...(lastActivity ? { lastActivity: new Date(lastActivity).toISOString() } : {}),
+      unreadCount,
+    };
+  }
+
+  /**
+   * Wraps a transcript response body with its content metadata.
+   * The body is streamed as received, so once the stream has been taken the buffer cannot be
+   * read; once the buffer has been read, the stream is served from it.
+   * @param {Response} response - Response from the transcript endpoint
+   * @returns {TranscriptDocument} The transcript document
+   */
+  private transformTranscriptResponse(response: Response): TranscriptDocument {
+    const body = (response.body || new Blob([]).stream()) as ReadableStream<Uint8Array>;
+    let streamed = false;
+    let buffered: Promise<Buffer> | undefined;
+    const contentLength = response.headers.get('Content-Length');
+    const fileName = response.headers
+      .get('Content-Disposition')
+      ?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)?.[1];
+
+    return {
+      contentType: response.headers.get('Content-Type') || 'application/pdf',
+      ...(contentLength ? { contentLength: Number(contentLength) } : {}),
+      ...(fileName ? { fileName: decodeURIComponent(fileName) } : {}),
+      get stream(): ReadableStream<Uint8Array> {
+        if (!buffered) {
+          streamed = true;
+          return body;
+        }
+
+        const content = buffered;
+        return new ReadableStream({
+          async start(controller): Promise<void> {
+            controller.enqueue(new Uint8Array(await content));
+            controller.close();
+          },
+        });
+      },
+      buffer: (): Promise<Buffer> => {
+        if (streamed) {
+          return Promise.reject(new Error('Transcript document has already been read as a stream'));
+        }
+        buffered = buffered || new Response(body).arrayBuffer().then(data => Buffer.from(data));
+        return buffered;
+      },
+    };
+  }
+
+  /**
+   * Transforms the response to a sent message into the entry it created.
+   * The end user sending the message is the subject of the access token.
+   * @param {string} token - Authentication token the message was sent with
+   * @param {MessageResponse} response - Raw response from the API
+   * @param {Record<string, unknown>} message - Message that was sent
+   * @returns {ConversationEntry} The created conversation entry
+   */
+  private transformSentMessage(
+    token: string,
+    response: MessageResponse,
+    message: Record<string, unknown>
+  ): ConversationEntry {
+    const entry = response.conversationEntries[0];
+
+    return parseConversationEntry({
+      identifier: entry.id,
+      entryType: 'Message',
+      entryPayload: JSON.stringify({
+        entryType: 'Message',
+        id: entry.id,
+        abstractMessage: message,
+      }),
+      clientTimestamp: new Date(entry.clientTimestamp).getTime(),
+      sender: {
+        role: 'EndUser',
+        subject: decodeJwt(token)?.sub || '',
+      },
+    });
+  }
+
   /**
    * Transforms a raw conversation entry response into a standardized format
    * @param {ConversationEntryResponse} response - Raw response from the API
@@ -305,16 +930,28 @@ export class ConversationService {
   private transformListResponse(response: ConversationEntryResponse): ConversationResponse {
     return {
       id: response.conversationEntries[0]?.identifier || '',
-      entries: response.conversationEntries.map(entry => ({
-        id: entry.identifier,
-        type: entry.entryType,
-        text: entry.entryPayload,
-        timestamp: new Date(entry.clientTimestamp).toISOString(),
-        sender: {
-          id: entry.sender.subject,
-          type: entry.sender.role,
-        },
-      })),
+      entries: response.conversationEntries.map(entry => parseConversationEntry(entry)),
     };
   }
 }
+
+/**
+ * Checks a MIME type against an allowed type, which may end in a '/*' wildcard.
+ * @param {string} mimeType - MIME type of the file
+ * @param {string} allowed - Allowed MIME type or wildcard
+ * @returns {boolean} indicating if the MIME type is allowed
+ */
+function matchesMimeType(mimeType: string, allowed: string): boolean {
+  const [type, subtype] = mimeType.toLowerCase().split('/');
+  const [allowedType, allowedSubtype] = allowed.trim().toLowerCase().split('/');
+  return type === allowedType && (allowedSubtype === '*' || subtype === allowedSubtype);
+}
+
+/**
+ * Maps a routing status reported by the API to a known routing status.
+ * @param {string} [routingStatus] - Routing status as reported by the API
+ * @returns {RoutingStatus} The routing status, or 'Unknown' if it is not recognized
+ */
+function parseRoutingStatus(routingStatus?: string): RoutingStatus {
+  return ROUTING_STATUSES.find(candidate => candidate === routingStatus) || 'Unknown';
+}
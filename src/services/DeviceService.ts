@@ -0,0 +1,95 @@
+import type { DeviceRegistrationParams, Logger } from '../types';
+import { makeRequest } from '../utils/request';
+import { createValidationError, type ValidationIssue } from '../utils/error';
+
+/**
+ * Service class for managing push notification registrations of Mobile platform devices.
+ */
+export class DeviceService {
+  constructor(
+    private baseUrl: string,
+    private logger: Logger
+  ) {}
+
+  /**
+   * Registers the device behind an access token for push notifications.
+   * @param {string} token - Authentication token created for the Mobile platform
+   * @param {DeviceRegistrationParams} params - APNs or FCM device registration details
+   * @returns {Promise<{ success: boolean }>} Promise indicating success
+   * @throws {ValidationError} If the registration details are incomplete
+   */
+  async register(token: string, params: DeviceRegistrationParams): Promise<{ success: boolean }> {
+    const issues = this.validateRegistration(params);
+    if (issues.length > 0) {
+      throw createValidationError('devices.register_device', issues);
+    }
+
+    const provider = 'fcm' in params ? 'FCM' : 'APNS';
+    this.logger.debug(`Registering ${provider} device for push notifications`);
+
+    await makeRequest(
+      `${this.baseUrl}/iamessage/api/v2/device/registration`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: {
+          deviceToken: params.deviceToken,
+          pushNotificationProvider: provider,
+          ...('apnsBundleId' in params ? { apnsBundleId: params.apnsBundleId } : {}),
+        },
+      },
+      'devices.register_device',
+      this.logger
+    );
+
+    return { success: true };
+  }
+
+  /**
+   * Removes the push notification registration of the device behind an access token.
+   * @param {string} token - Authentication token created for the Mobile platform
+   * @returns {Promise<{ success: boolean }>} Promise indicating success
+   */
+  async unregister(token: string): Promise<{ success: boolean }> {
+    this.logger.debug('Unregistering device from push notifications');
+
+    await makeRequest(
+      `${this.baseUrl}/iamessage/api/v2/device/registration`,
+      {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      },
+      'devices.unregister_device',
+      this.logger
+    );
+
+    return { success: true };
+  }
+
+  /**
+   * Checks that exactly one push provider is given along with a device token.
+   * @param {DeviceRegistrationParams} params - Device registration details
+   * @returns {ValidationIssue[]} Problems found in the registration details
+   */
+  private validateRegistration(params: DeviceRegistrationParams): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+    const hasApns = 'apnsBundleId' in params && !!params.apnsBundleId;
+    const hasFcm = 'fcm' in params && params.fcm === true;
+
+    if (!params.deviceToken) {
+      issues.push({ field: 'deviceToken', code: 'required', message: 'deviceToken is required' });
+    }
+    if (hasApns === hasFcm) {
+      issues.push({
+        field: hasApns ? 'fcm' : 'apnsBundleId',
+        code: 'invalid_provider',
+        message: 'Exactly one of apnsBundleId or fcm must be provided',
+      });
+    }
+
+    return issues;
+  }
+}
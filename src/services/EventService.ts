@@ -1,51 +1,676 @@
-import { createEventSource, EventSourceClient } from 'eventsource-client';
-import type { Logger, SSEOptions } from '../types';
+import {
+  createEventSource,
+  EventSourceClient,
+  type EventSourceMessage,
+  type FetchLikeInit,
+  type FetchLikeResponse
+} from 'eventsource-client';
+import type {
+  ConversationEntry,
+  EventHubOptions,
+  EventStreamCloseReason,
+  EventStreamState,
+  Logger,
+  ReconnectPolicy,
+  SSEOptions
+} from '../types';
+import {
+  createEventStreamError,
+  createEventStreamStatusError,
+  type EventStreamError
+} from '../utils/error';
+import { getEntryTimestamp, parseEventEntry } from '../utils/entries';
+import { parseStreamEvent, toStreamEvent } from '../utils/events';
+import { EventHub } from '../events/EventHub';
+
+const DEFAULT_RECONNECT_POLICY: Required<ReconnectPolicy> = {
+  maxAttempts: 10,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.5,
+};
+const MAX_SEEN_ENTRY_IDS = 500;
+
+/**
+ * Loads the entries of a conversation from a timestamp onwards, oldest first.
+ */
+export type EntryLoader = (
+  token: string,
+  conversationId: string,
+  since: number
+) => AsyncIterable<ConversationEntry>;
+
+/** Loads the entries of a conversation from a timestamp onwards, for the token of a stream */
+type StreamEntryLoader = (
+  conversationId: string,
+  since: number
+) => AsyncIterable<ConversationEntry>;
+
+/** Entries of a conversation an event stream has passed on */
+interface SeenEntries {
+  /** Epoch ms timestamp of the latest entry, if known */
+  timestamp?: number;
+  /** IDs of the most recent entries */
+  ids: Set<string>;
+}
 
 /**
  * Service class for managing Server-Sent Events (SSE) connections.
  * Handles creation and management of event streams for real-time updates.
  */
 export class EventService {
+  private hubs = new Map<string, EventHub>();
+
   constructor(
     private baseUrl: string,
     private orgId: string,
-    private logger: Logger
+    private logger: Logger,
+    private loadEntries?: EntryLoader
   ) {}
 
   /**
    * Creates a Server-Sent Events (SSE) connection using create-eventsource library.
    * Works in both browser and Node.js environments.
+   * Every event is passed to `onEvent` as received, then parsed and passed to the handler for its type.
+   * When an entry loader is configured, entries missed while the stream was down are backfilled.
    *
    * @param {string} token - Authentication token
    * @param {SSEOptions} options - Connection options
-   * @returns {EventSourceInstance} The created EventSource instance
+   * @returns {EventStream} The created event stream
    */
-  createEventSourceStream(token: string, options: SSEOptions): EventSourceClient {
+  createEventSourceStream(token: string, options: SSEOptions): EventStream {
     if (!token) {
       throw new Error('Authentication token is required');
     }
 
     this.logger.debug('Creating EventSource stream connection');
 
-    const eventSource = createEventSource({
-      url: `${this.baseUrl}/eventrouter/v1/sse`,
-      headers: {
+    const loadEntries = options.backfill !== false ? this.loadEntries : undefined;
+    return new EventStream(
+      `${this.baseUrl}/eventrouter/v1/sse`,
+      {
         Accept: 'text/event-stream',
         Authorization: `Bearer ${token}`,
         'X-Org-Id': this.orgId,
-        ...(options.lastEventId ? { 'Last-Event-Id': options.lastEventId } : {}),
       },
+      options,
+      message => this.handleMessage(message, options),
+      this.logger,
+      loadEntries &&
+        ((conversationId, since): AsyncIterable<ConversationEntry> =>
+          loadEntries(token, conversationId, since))
+    );
+  }
+
+  /**
+   * Returns the event hub for a token, creating it if there is none.
+   * Every conversation subscribed through the hub shares its single connection. The options
+   * apply to the connection of a newly created hub.
+   * @param {string} token - Authentication token
+   * @param {EventHubOptions} [options] - Connection options
+   * @returns {EventHub} The event hub for the token
+   */
+  hub(token: string, options: EventHubOptions = {}): EventHub {
+    if (!token) {
+      throw new Error('Authentication token is required');
+    }
+
+    const existing = this.hubs.get(token);
+    if (existing) {
+      return existing;
+    }
+
+    const hub: EventHub = new EventHub(
+      this,
+      token,
+      options,
+      this.logger,
+      () => {
+        const registered = this.hubs.get(hub.token) || hub;
+        this.hubs.set(hub.token, registered);
+        return registered;
+      },
+      () => {
+        if (this.hubs.get(hub.token) === hub) {
+          this.hubs.delete(hub.token);
+        }
+      }
+    );
+    this.hubs.set(token, hub);
+    return hub;
+  }
+
+  /**
+   * Moves the event hub of a token to the token that replaced it, reconnecting the hub with it.
+   * Called by the session that owns the token when it is refreshed.
+   * @param {string} previousToken - Token that was refreshed
+   * @param {string} token - Refreshed authentication token
+   */
+  updateHubToken(previousToken: string, token: string): void {
+    const hub = this.hubs.get(previousToken);
+    if (!hub || previousToken === token) {
+      return;
+    }
+
+    this.hubs.delete(previousToken);
+    hub.updateToken(token);
+    if (!this.hubs.has(token)) {
+      this.hubs.set(token, hub);
+    }
+  }
+
+  /**
+   * Passes an event to the raw event callback and the typed handler for its type.
+   * Events that cannot be parsed or are not recognized go to the unknown event handler, and
+   * malformed events are also reported as parse errors.
+   * @param {EventSourceMessage} message - Event received on the stream
+   * @param {SSEOptions} options - Connection options holding the handlers
+   */
+  private handleMessage(message: EventSourceMessage, options: SSEOptions): void {
+    options.onEvent?.(message);
+
+    const event = parseStreamEvent(message);
+    if ('reason' in event) {
+      this.logger.debug(`Unhandled event: ${event.reason}`);
+      if (event.malformed) {
+        options.onError?.(createEventStreamError('parse_error', event.reason));
+      }
+      options.onUnknown?.(message, event.reason);
+      return;
+    }
+
+    const { entry } = event;
+    switch (entry.type) {
+      case 'Message':
+        options.onMessage?.({ ...event, entry });
+        break;
+      case 'TypingStartedIndicator':
+      case 'TypingStoppedIndicator':
+        options.onTyping?.({ ...event, entry });
+        break;
+      case 'RoutingResult':
+      case 'RoutingWorkResult':
+        options.onRoutingResult?.({ ...event, entry });
+        break;
+      case 'ParticipantChanged':
+        options.onParticipantChanged?.({ ...event, entry });
+        break;
+      case 'DeliveryAcknowledgement':
+      case 'ReadAcknowledgement':
+        options.onReceipt?.({ ...event, entry });
+        break;
+      case 'CloseConversation':
+        options.onCloseConversation?.({ ...event, entry });
+        break;
+    }
+  }
+}
+
+/**
+ * Event stream over a Server-Sent Events connection.
+ * Failures are reported to `onError` as typed errors, and `onClose` is called exactly once with
+ * the reason the stream closed. With a reconnect policy, a dropped connection or a network or
+ * server error is retried after an exponential backoff with jitter, resuming after the last event
+ * received. While the browser reports being offline, attempts wait for the network to come back.
+ * A rejected token is never retried.
+ *
+ * With an entry loader, the stream keeps track of the last entry passed on for each conversation.
+ * After a reconnect, or when opened with the timestamps of the last entries received, the entries
+ * missed since then are loaded and passed on oldest first, holding back newer events until they are. Entries are
+ * passed on once each.
+ */
+export class EventStream {
+  private source?: EventSourceClient;
+  private connection = 0;
+  private currentLastEventId?: string;
+  private policy?: Required<ReconnectPolicy>;
+  private state: EventStreamState = 'connecting';
+  private attempts = 0;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private offline = false;
+  private detachNetworkListeners?: () => void;
+  private opened = false;
+  private seenEntries = new Map<string, SeenEntries>();
+  private backfillRun = 0;
+  private heldEvents?: EventSourceMessage[];
+
+  constructor(
+    private url: string,
+    private headers: Record<string, string>,
+    private options: SSEOptions,
+    private onMessage: (message: EventSourceMessage) => void,
+    private logger: Logger,
+    private loadEntries?: StreamEntryLoader
+  ) {
+    this.currentLastEventId = options.lastEventId;
+    if (options.reconnect) {
+      this.policy = {
+        ...DEFAULT_RECONNECT_POLICY,
+        ...(options.reconnect === true ? {} : options.reconnect),
+      };
+      this.watchNetwork();
+    }
+
+    for (const [conversationId, timestamp] of Object.entries(options.lastEntryTimestamps || {})) {
+      this.seenEntries.set(conversationId, { timestamp, ids: new Set() });
+    }
+    this.connect();
+  }
+
+  /** ID of the last event received, or the initial last event ID if none has been received */
+  get lastEventId(): string | undefined {
+    return this.currentLastEventId;
+  }
+
+  /** State of the connection */
+  get readyState(): EventStreamState {
+    return this.state;
+  }
+
+  /** Epoch ms timestamps of the last entry passed on for each conversation, to backfill from */
+  get lastEntryTimestamps(): Record<string, number> {
+    const timestamps: Record<string, number> = {};
+    for (const [conversationId, { timestamp }] of this.seenEntries) {
+      if (timestamp !== undefined) {
+        timestamps[conversationId] = timestamp;
+      }
+    }
+    return timestamps;
+  }
+
+  /**
+   * Closes the connection and stops reconnecting.
+   */
+  close(): void {
+    this.finish('closed');
+  }
+
+  /**
+   * Opens a connection, resuming after the last event received.
+   */
+  private connect(): void {
+    const connection = ++this.connection;
+    const isCurrent = (): boolean => connection === this.connection;
+
+    const source: EventSourceClient = createEventSource({
+      url: this.url,
+      headers: {
+        ...this.headers,
+        ...(this.currentLastEventId ? { 'Last-Event-Id': this.currentLastEventId } : {}),
+      },
+      fetch: (url, init) => this.request(connection, url, init),
       onConnect: () => {
-        this.logger.info('EventSource connection opened');
-        options.onOpen?.();
+        if (isCurrent()) {
+          this.handleConnect();
+        }
       },
-      onDisconnect: () => {
-        this.logger.info('SSE disconnected. Preventing auto reconnect.');
-        eventSource.close();
+      onScheduleReconnect: () => {
+        if (isCurrent()) {
+          this.handleDisconnect();
+        }
+        // The event source client arms its own reconnect timer once this callback returns
+        void Promise.resolve().then(() => source.close());
+      },
+      onMessage: message => {
+        if (message.id) {
+          this.currentLastEventId = message.id;
+        }
+        if (this.heldEvents) {
+          this.heldEvents.push(message);
+        } else {
+          this.deliver(message);
+        }
+      },
+    });
+    this.source = source;
+  }
+
+  /**
+   * Requests the stream, turning failed and rejected requests and failed reads of the response
+   * into typed errors.
+   * Failures are handled here, so the event source client is told the request was aborted and
+   * does not schedule a reconnect of its own.
+   * @param {number} connection - Connection the request is made for
+   * @param {string | URL} url - URL of the stream
+   * @param {FetchLikeInit} [init] - Request options
+   * @returns {Promise<FetchLikeResponse>} Promise containing the response of a successful request
+   */
+  private async request(
+    connection: number,
+    url: string | URL,
+    init?: FetchLikeInit
+  ): Promise<FetchLikeResponse> {
+    let response: Response;
+    try {
+      response = await fetch(url, init as RequestInit);
+    } catch (error: unknown) {
+      if (connection !== this.connection || (error as { name?: string })?.name === 'AbortError') {
+        throw error;
+      }
+      const reason = error instanceof Error ? error.message : 'request failed';
+      this.handleDisconnect(createEventStreamError('network', reason, { cause: error }));
+      throw handledError();
+    }
+
+    if (connection !== this.connection) {
+      return response;
+    }
+    if (response.ok && response.status !== 204) {
+      return {
+        body: response.body && this.watchBody(connection, response.body),
+        url: response.url,
+        status: response.status,
+        redirected: response.redirected,
+      };
+    }
+
+    void response.body?.cancel().catch(() => undefined);
+    if (response.status === 204) {
+      this.logger.info('SSE ended by the server');
+      this.finish('ended');
+    } else {
+      this.handleDisconnect(createEventStreamStatusError(response.status));
+    }
+    throw handledError();
+  }
+
+  /**
+   * Wraps the body of a stream response so a connection lost while reading it is reported as a
+   * network error.
+   * @param {number} connection - Connection the response belongs to
+   * @param {ReadableStream<Uint8Array>} body - Body of the response
+   * @returns {ReadableStream<Uint8Array>} Body passing on the chunks read from the response
+   */
+  private watchBody(
+    connection: number,
+    body: ReadableStream<Uint8Array>
+  ): ReadableStream<Uint8Array> {
+    const reader = body.getReader();
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller): Promise<void> => {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error: unknown) {
+          if (connection === this.connection) {
+            const reason = error instanceof Error ? error.message : 'connection lost';
+            this.handleDisconnect(createEventStreamError('network', reason, { cause: error }));
+          }
+          controller.error(handledError());
+          return;
+        }
+
+        if (result.done) {
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
       },
-      onMessage: options.onEvent,
+      cancel: reason => reader.cancel(reason),
     });
+  }
+
+  /**
+   * Marks the stream open once a connection is established.
+   */
+  private handleConnect(): void {
+    this.logger.info('EventSource connection opened');
+    this.state = 'open';
+    const attempts = this.attempts;
+    const resumed = attempts > 0 || (!this.opened && this.seenEntries.size > 0);
+    this.attempts = 0;
+    this.opened = true;
+
+    this.options.onOpen?.();
+    if (attempts > 0) {
+      this.logger.info(`EventSource reconnected after ${attempts} attempt(s)`);
+      this.options.onReconnected?.(attempts);
+    }
+
+    if (resumed && this.loadEntries) {
+      this.backfill(this.loadEntries).catch(error => {
+        this.logger.error('Error passing on backfilled entries:', error);
+      });
+    }
+  }
+
+  /**
+   * Passes an event on, unless it carries an entry that has already been passed on.
+   * @param {EventSourceMessage} message - Event received on the stream or built from a loaded entry
+   */
+  private deliver(message: EventSourceMessage): void {
+    const parsed = this.loadEntries ? parseEventEntry(message) : undefined;
+    if (parsed?.conversationId && !this.markSeen(parsed.conversationId, parsed.entry)) {
+      this.logger.debug(`Dropping duplicate entry ${parsed.entry.id}`);
+      return;
+    }
+    this.onMessage(message);
+  }
+
+  /**
+   * Records an entry as passed on for its conversation.
+   * @param {string} conversationId - ID of the conversation
+   * @param {ConversationEntry} entry - Entry being passed on
+   * @returns {boolean} indicating if the entry had not been passed on before
+   */
+  private markSeen(conversationId: string, entry: ConversationEntry): boolean {
+    const seen = this.seenEntries.get(conversationId) || { ids: new Set<string>() };
+    this.seenEntries.set(conversationId, seen);
+    if (seen.ids.has(entry.id)) {
+      return false;
+    }
+
+    seen.ids.add(entry.id);
+    if (seen.ids.size > MAX_SEEN_ENTRY_IDS) {
+      seen.ids.delete(seen.ids.values().next().value as string);
+    }
+    const timestamp = getEntryTimestamp(entry);
+    if (!Number.isNaN(timestamp)) {
+      seen.timestamp = Math.max(seen.timestamp ?? timestamp, timestamp);
+    }
+    return true;
+  }
+
+  /**
+   * Loads the entries each conversation missed since the last one passed on and passes them on
+   * oldest first, followed by the events held back while loading.
+   * @param {StreamEntryLoader} loadEntries - Loads the entries of a conversation from a timestamp onwards
+   * @returns {Promise<void>} Promise resolving once the entries are passed on
+   */
+  private async backfill(loadEntries: StreamEntryLoader): Promise<void> {
+    const run = ++this.backfillRun;
+    this.heldEvents = this.heldEvents || [];
+    const missed: Array<{ conversationId: string; entry: ConversationEntry }> = [];
+
+    await Promise.all(
+      [...this.seenEntries].map(async ([conversationId, { timestamp, ids }]) => {
+        if (timestamp === undefined) {
+          return;
+        }
+        try {
+          for await (const entry of loadEntries(conversationId, timestamp)) {
+            // Without the IDs passed on, the entry at the timestamp is the one already passed on
+            const entryTimestamp = getEntryTimestamp(entry);
+            if (ids.size ? entryTimestamp >= timestamp : entryTimestamp > timestamp) {
+              missed.push({ conversationId, entry });
+            }
+          }
+        } catch (error: unknown) {
+          this.logger.warn(`Failed to backfill conversation ${conversationId}`, error);
+          const statusCode = (error as { statusCode?: number })?.statusCode;
+          this.options.onError?.(
+            statusCode
+              ? createEventStreamStatusError(statusCode, error)
+              : createEventStreamError('network', `backfill of ${conversationId} failed`, {
+                  cause: error,
+                })
+          );
+        }
+      })
+    );
+
+    if (run !== this.backfillRun || this.state === 'closed') {
+      return;
+    }
+
+    const held = this.heldEvents;
+    this.heldEvents = undefined;
+    missed.sort((a, b) => getEntryTimestamp(a.entry) - getEntryTimestamp(b.entry));
+    this.logger.debug(`Backfilling ${missed.length} entries`);
+
+    for (const { conversationId, entry } of missed) {
+      const message = toStreamEvent(conversationId, entry);
+      if (message) {
+        this.deliver(message);
+      }
+    }
+    for (const message of held) {
+      this.deliver(message);
+    }
+  }
+
+  /**
+   * Closes a dropped or failed connection, then reconnects if the policy allows it or closes
+   * the stream.
+   * @param {EventStreamError} [error] - Error the connection failed with, if any
+   */
+  private handleDisconnect(error?: EventStreamError): void {
+    this.retireConnection();
+
+    if (error) {
+      this.logger.warn(`SSE error: ${error.message}`);
+      this.options.onError?.(error);
+      if (this.state === 'closed') {
+        return;
+      }
+      if (error.code === 'auth_expired' || error.code === 'forbidden') {
+        this.finish('error', error);
+        return;
+      }
+    }
+
+    if (!this.policy) {
+      this.logger.info('SSE disconnected. Preventing auto reconnect.');
+      this.finish(error ? 'error' : 'ended', error);
+      return;
+    }
+
+    if (this.attempts >= this.policy.maxAttempts) {
+      this.logger.warn(`SSE disconnected. Giving up after ${this.attempts} reconnect attempts.`);
+      this.finish('gave_up', error);
+      return;
+    }
+
+    this.state = 'reconnecting';
+    if (this.offline) {
+      this.logger.info('SSE disconnected while offline. Waiting for the network to reconnect.');
+      return;
+    }
+
+    this.logger.info('SSE disconnected. Reconnecting.');
+    this.scheduleReconnect(getReconnectDelay(this.policy, this.attempts + 1));
+  }
+
+  /**
+   * Schedules the next reconnect attempt.
+   * @param {number} delay - Delay in ms before the attempt
+   */
+  private scheduleReconnect(delay: number): void {
+    clearTimeout(this.reconnectTimer);
+    this.attempts++;
+    this.options.onReconnecting?.({ attempt: this.attempts, delay });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = undefined;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Closes the current connection, ignoring anything it reports afterwards.
+   */
+  private retireConnection(): void {
+    this.connection++;
+    this.source?.close();
+    this.source = undefined;
+  }
+
+  /**
+   * Closes the stream and reports why, unless it is already closed.
+   * @param {EventStreamCloseReason} reason - Why the stream is closed
+   * @param {EventStreamError} [error] - Error that closed the stream, if any
+   */
+  private finish(reason: EventStreamCloseReason, error?: EventStreamError): void {
+    if (this.state === 'closed') {
+      return;
+    }
 
-    return eventSource;
+    this.state = 'closed';
+    clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = undefined;
+    this.heldEvents = undefined;
+    this.retireConnection();
+    this.detachNetworkListeners?.();
+    this.options.onClose?.(reason, error);
   }
-} 
\ No newline at end of file
+
+  /**
+   * Follows the browser's online and offline events, where available.
+   * Reconnecting waits while offline and happens straight away when the network comes back.
+   */
+  private watchNetwork(): void {
+    const target = globalThis as Partial<
+      Pick<typeof globalThis, 'addEventListener' | 'removeEventListener' | 'navigator'>
+    >;
+    if (
+      typeof target.addEventListener !== 'function' ||
+      typeof target.removeEventListener !== 'function'
+    ) {
+      return;
+    }
+
+    this.offline = target.navigator?.onLine === false;
+
+    const onOffline = (): void => {
+      this.offline = true;
+    };
+    const onOnline = (): void => {
+      this.offline = false;
+      if (this.state === 'reconnecting' && !this.source) {
+        this.scheduleReconnect(0);
+      }
+    };
+
+    target.addEventListener('offline', onOffline);
+    target.addEventListener('online', onOnline);
+    this.detachNetworkListeners = (): void => {
+      target.removeEventListener?.('offline', onOffline);
+      target.removeEventListener?.('online', onOnline);
+    };
+  }
+}
+
+/**
+ * Calculates the delay before a reconnect attempt, growing exponentially up to the maximum delay.
+ * @param {Required<ReconnectPolicy>} policy - Reconnect policy
+ * @param {number} attempt - Number of the attempt, starting at 1
+ * @returns {number} Delay in ms, reduced by a random fraction of up to the policy's jitter
+ */
+function getReconnectDelay(policy: Required<ReconnectPolicy>, attempt: number): number {
+  const delay = Math.min(
+    policy.initialDelay * Math.pow(policy.multiplier, attempt - 1),
+    policy.maxDelay
+  );
+  return Math.round(delay * (1 - policy.jitter * Math.random()));
+}
+
+/**
+ * Creates the error a handled stream request fails with. The event source client treats it as an
+ * aborted request and leaves reconnecting to the stream.
+ * @returns {Error} Error named as an aborted request
+ */
+function handledError(): Error {
+  const error = new Error('Event stream request failed');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,448 @@
+import type {
+  Logger,
+  ResumeParams,
+  SessionStartParams,
+  SessionStore,
+  SessionStoreKey,
+  SessionStream,
+  SSEOptions,
+  TokenCreateParams,
+  TokenResult
+} from '../types';
+import type { MessagingInAppWebError } from '../utils/error';
+import { getJwtExpiry } from '../utils/jwt';
+import type { TokenService } from './TokenService';
+import type { EventService, EventStream } from './EventService';
+
+const DEFAULT_REFRESH_LEEWAY = 60000;
+const MAX_TIMER_DELAY = 2147483647;
+
+interface SessionOptions {
+  /** Time in ms before the token expires at which the session refreshes it */
+  refreshLeeway: number;
+  /** Device the token was issued for */
+  deviceId?: string;
+  /** Conversation the session is used for */
+  conversationId?: string;
+  /** Store the session persists its token to */
+  sessionStore?: SessionStore;
+  /** Parameters used to create a new token when re-authenticating */
+  tokenParams: TokenCreateParams;
+}
+
+/**
+ * Service class for starting managed sessions.
+ * A session owns an access token and keeps it valid for the lifetime of the session.
+ */
+export class SessionService {
+  constructor(
+    private tokenService: TokenService,
+    private eventService: EventService,
+    private logger: Logger,
+    private sessionStore?: SessionStore
+  ) {}
+
+  /**
+   * Starts a new session. An existing token is adopted when provided; otherwise a token kept in
+   * the session store for the device and conversation is continued before a new one is created.
+   * @param {SessionStartParams} params - Token creation parameters or an existing token to adopt
+   * @returns {Promise<Session>} Promise containing the started session
+   */
+  async start(params: SessionStartParams = {}): Promise<Session> {
+    const { conversationId, accessToken, lastEventId, refreshLeeway, ...tokenParams } = params;
+
+    const token: TokenResult = accessToken
+      ? { accessToken, lastEventId: lastEventId || '0' }
+      : (await this.rehydrate(tokenParams.deviceId, conversationId)) ||
+        (await this.tokenService.create(tokenParams));
+
+    this.logger.debug('Starting session');
+    const session = new Session(this.tokenService, this.eventService, this.logger, token, {
+      refreshLeeway: refreshLeeway ?? DEFAULT_REFRESH_LEEWAY,
+      deviceId: token.deviceId || tokenParams.deviceId,
+      conversationId,
+      sessionStore: this.sessionStore,
+      tokenParams,
+    });
+    await session.persist();
+    return session;
+  }
+
+  /**
+   * Resumes a session for an existing conversation, continuing the given token or the token kept
+   * in the session store for the device and conversation.
+   * @param {ResumeParams} params - Token or device to resume, conversation and last event ID
+   * @returns {Promise<Session | undefined>} Promise containing the resumed session, or undefined
+   * if there is no token to resume or it can no longer be continued
+   */
+  async resume(params: ResumeParams): Promise<Session | undefined> {
+    const { conversationId, deviceId, refreshLeeway } = params;
+    const key: SessionStoreKey | undefined = deviceId ? { deviceId, conversationId } : undefined;
+    const record =
+      !params.token && key && this.sessionStore ? await this.sessionStore.get(key) : undefined;
+    const accessToken = params.token || record?.accessToken;
+
+    if (!accessToken) {
+      this.logger.info(`No session to resume for conversation ${conversationId}`);
+      return undefined;
+    }
+
+    this.logger.debug(`Resuming session for conversation ${conversationId}`);
+    let continued: TokenResult;
+    try {
+      // The token is continued here rather than through the session, so an identity provider
+      // cannot re-authenticate and start a new session in its place
+      continued = await this.tokenService.continue(accessToken);
+    } catch (error: unknown) {
+      const statusCode = (error as MessagingInAppWebError)?.statusCode;
+      if (statusCode !== 401 && statusCode !== 403) {
+        throw error;
+      }
+
+      this.logger.warn(`Session for conversation ${conversationId} has expired`, error);
+      if (key) {
+        await this.sessionStore?.delete(key);
+      }
+      return undefined;
+    }
+
+    const token: TokenResult = {
+      ...continued,
+      lastEventId: continued.lastEventId || params.lastEventId || record?.lastEventId || '0',
+    };
+    const session = new Session(this.tokenService, this.eventService, this.logger, token, {
+      refreshLeeway: refreshLeeway ?? DEFAULT_REFRESH_LEEWAY,
+      deviceId: continued.deviceId || deviceId,
+      conversationId,
+      sessionStore: this.sessionStore,
+      tokenParams: { deviceId },
+    });
+    await session.persist();
+    return session;
+  }
+
+  /**
+   * Continues the token kept in the session store for a device and conversation.
+   * Records whose token can no longer be continued are removed from the store.
+   * @param {string} [deviceId] - Device the token was issued for
+   * @param {string} [conversationId] - Conversation the token is used for
+   * @returns {Promise<TokenResult | undefined>} Promise containing the continued token, if any
+   */
+  private async rehydrate(
+    deviceId?: string,
+    conversationId?: string
+  ): Promise<TokenResult | undefined> {
+    if (!this.sessionStore || !deviceId) {
+      return undefined;
+    }
+
+    const key: SessionStoreKey = { deviceId, conversationId };
+    const record = await this.sessionStore.get(key);
+    if (!record) {
+      return undefined;
+    }
+
+    try {
+      const token = await this.tokenService.continue(record.accessToken);
+      this.logger.info('Session rehydrated from store');
+      return { ...token, lastEventId: token.lastEventId || record.lastEventId };
+    } catch (error: unknown) {
+      this.logger.warn('Stored session token could not be continued. Creating a new token.', error);
+      await this.sessionStore.delete(key);
+      return undefined;
+    }
+  }
+}
+
+/**
+ * A managed session holding the current access token.
+ * Refreshes the token ahead of its expiry, retries calls rejected with a 401 once with a
+ * refreshed token, re-establishes its event streams whenever the token changes, and writes
+ * every new token to the session store.
+ */
+export class Session {
+  private accessToken: string;
+  private currentLastEventId: string;
+  private receivedEventId?: string;
+  private refreshTimer?: ReturnType<typeof setTimeout>;
+  private pendingRefresh?: Promise<string>;
+  private streams = new Set<ManagedStream>();
+  private closed = false;
+
+  constructor(
+    private tokenService: TokenService,
+    private eventService: EventService,
+    private logger: Logger,
+    token: TokenResult,
+    private options: SessionOptions
+  ) {
+    this.accessToken = token.accessToken;
+    this.currentLastEventId = token.lastEventId;
+    this.scheduleRefresh();
+  }
+
+  /** The current access token */
+  get token(): string {
+    return this.accessToken;
+  }
+
+  /** ID of the last event received on the session's streams, or issued with its token */
+  get lastEventId(): string {
+    return this.receivedEventId || this.currentLastEventId;
+  }
+
+  /** Device the access token was issued for */
+  get deviceId(): string | undefined {
+    return this.options.deviceId;
+  }
+
+  /** Conversation the session is used for */
+  get conversationId(): string | undefined {
+    return this.options.conversationId;
+  }
+
+  /** Expiry of the current access token, if the token carries one */
+  get expiresAt(): Date | undefined {
+    return getJwtExpiry(this.accessToken);
+  }
+
+  /**
+   * Refreshes the access token through the continuation endpoint.
+   * If the token can no longer be continued and an identity provider is configured,
+   * a new authenticated token is created instead. Concurrent callers share a single refresh.
+   * @returns {Promise<string>} Promise containing the refreshed access token
+   * @throws {Error} If the session has been closed
+   */
+  refresh(): Promise<string> {
+    if (this.closed) {
+      return Promise.reject(new Error('Session is closed'));
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.tokenService
+        .continue(this.accessToken)
+        .catch(error => this.reauthenticate(error))
+        .then(token => {
+          this.setToken(token);
+          return token.accessToken;
+        })
+        .finally(() => {
+          this.pendingRefresh = undefined;
+        });
+    }
+
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Runs an API call with the current access token.
+   * If the call is rejected with a 401, the token is refreshed and the call replayed once.
+   * @param {(token: string) => Promise<T>} operation - API call to run
+   * @returns {Promise<T>} Promise containing the result of the call
+   */
+  async run<T>(operation: (token: string) => Promise<T>): Promise<T> {
+    const token = this.pendingRefresh ? await this.pendingRefresh : this.accessToken;
+
+    try {
+      return await operation(token);
+    } catch (error: unknown) {
+      if ((error as MessagingInAppWebError)?.statusCode !== 401) {
+        throw error;
+      }
+
+      this.logger.info('Access token rejected. Refreshing session and retrying.');
+      return operation(await this.refresh());
+    }
+  }
+
+  /**
+   * Opens an event stream that is re-established with the new token after every refresh.
+   * @param {SSEOptions} options - Configuration options for the event source stream
+   * @returns {SessionStream} Handle for the managed stream
+   */
+  stream(options: SSEOptions): SessionStream {
+    if (this.closed) {
+      throw new Error('Session is closed');
+    }
+
+    const stream = new ManagedStream(
+      this.eventService,
+      options,
+      eventId => {
+        this.receivedEventId = eventId;
+      },
+      () => this.streams.delete(stream)
+    );
+    this.streams.add(stream);
+    stream.open(this.accessToken);
+    return stream;
+  }
+
+  /**
+   * Associates the session with a conversation and persists it under that conversation's key.
+   * @param {string} conversationId - ID of the conversation the session is used for
+   * @returns {Promise<void>} Promise resolving once the session is persisted
+   */
+  async bindConversation(conversationId: string): Promise<void> {
+    this.options.conversationId = conversationId;
+    await this.persist();
+  }
+
+  /**
+   * Writes the current token to the session store, if the session has one and a device ID.
+   * @returns {Promise<void>} Promise resolving once the token is persisted
+   */
+  async persist(): Promise<void> {
+    const { sessionStore, deviceId, conversationId } = this.options;
+    if (!sessionStore || !deviceId) {
+      return;
+    }
+
+    await sessionStore.set({
+      deviceId,
+      conversationId,
+      accessToken: this.accessToken,
+      lastEventId: this.lastEventId,
+      updatedAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Closes the session, stopping token refreshes and closing all of its streams.
+   * The persisted token is kept so the session can be rehydrated later.
+   */
+  close(): void {
+    this.closed = true;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+    for (const stream of [...this.streams]) {
+      stream.close();
+    }
+  }
+
+  /**
+   * Creates a new authenticated token after the continuation endpoint rejected the current one.
+   * @param {unknown} error - Error raised by the continuation request
+   * @returns {Promise<TokenResult>} Promise containing the new token
+   * @throws {unknown} The original error if the session cannot re-authenticate
+   */
+  private reauthenticate(error: unknown): Promise<TokenResult> {
+    if (
+      (error as MessagingInAppWebError)?.statusCode !== 401 ||
+      !this.tokenService.canReauthenticate
+    ) {
+      throw error;
+    }
+
+    this.logger.info('Session token could not be continued. Re-authenticating.');
+    return this.tokenService.create({
+      ...this.options.tokenParams,
+      deviceId: this.options.deviceId || this.options.tokenParams.deviceId,
+      // The identity token the session started with may have expired, so the provider is asked
+      // for a fresh one
+      customerIdentityToken: undefined,
+    });
+  }
+
+  /**
+   * Adopts a refreshed token and re-establishes open streams and the event hub with it.
+   * @param {TokenResult} token - The refreshed token
+   */
+  private setToken(token: TokenResult): void {
+    const previousToken = this.accessToken;
+    this.accessToken = token.accessToken;
+    this.options.deviceId = token.deviceId || this.options.deviceId;
+    this.currentLastEventId = token.lastEventId || this.currentLastEventId;
+    this.logger.debug('Session token refreshed');
+
+    for (const stream of this.streams) {
+      stream.open(this.accessToken);
+    }
+    this.eventService.updateHubToken(previousToken, this.accessToken);
+    this.scheduleRefresh();
+    this.persist().catch(error => this.logger.error('Failed to persist session token:', error));
+  }
+
+  /**
+   * Schedules a refresh ahead of the current token's expiry.
+   */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+
+    const expiresAt = this.expiresAt;
+    if (this.closed || !expiresAt) {
+      return;
+    }
+
+    const delay = Math.min(
+      Math.max(expiresAt.getTime() - Date.now() - this.options.refreshLeeway, 0),
+      MAX_TIMER_DELAY
+    );
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = undefined;
+      this.refresh().catch(error => this.logger.error('Failed to refresh session token:', error));
+    }, delay);
+    this.refreshTimer.unref?.();
+  }
+}
+
+/**
+ * Event stream owned by a session, reopened from the last seen event on every token change.
+ * The reopened stream backfills the conversations the replaced stream passed on entries for.
+ */
+class ManagedStream implements SessionStream {
+  private eventSource?: EventStream;
+  private lastSeenEventId?: string;
+
+  constructor(
+    private eventService: EventService,
+    private options: SSEOptions,
+    private onEventId: (eventId: string) => void,
+    private onClose: () => void
+  ) {
+    this.lastSeenEventId = options.lastEventId;
+  }
+
+  get lastEventId(): string | undefined {
+    return this.lastSeenEventId;
+  }
+
+  open(token: string): void {
+    // The replaced stream closing is not reported to the caller
+    const previous = this.eventSource;
+    this.eventSource = undefined;
+    previous?.close();
+
+    const eventSource = this.eventService.createEventSourceStream(token, {
+      ...this.options,
+      lastEventId: this.lastSeenEventId,
+      lastEntryTimestamps: previous
+        ? previous.lastEntryTimestamps
+        : this.options.lastEntryTimestamps,
+      onEvent: event => {
+        if (event.id) {
+          this.lastSeenEventId = event.id;
+          this.onEventId(event.id);
+        }
+        this.options.onEvent?.(event);
+      },
+      onClose: (reason, error) => {
+        if (this.eventSource === eventSource) {
+          this.options.onClose?.(reason, error);
+        }
+      },
+    });
+    this.eventSource = eventSource;
+  }
+
+  close(): void {
+    this.eventSource?.close();
+    this.eventSource = undefined;
+    this.onClose();
+  }
+}
@@ -1,5 +1,14 @@
-import type { Logger, TokenCreateParams, TokenResponse } from '../types';
+import type {
+  CustomerIdentity,
+  CustomerIdentityProvider,
+  Logger,
+  TokenCreateParams,
+  TokenResult
+} from '../types';
+import type { AccessTokenResponse } from '../types/api';
 import { makeRequest } from '../utils/request';
+import { decodeJwt } from '../utils/jwt';
+import { createIdentityProviderError } from '../utils/error';
 
 /**
  * Service class for managing authentication tokens with the Messaging In-App and Web API.
@@ -10,15 +19,28 @@ export class TokenService {
     private baseUrl: string,
     private orgId: string,
     private developerName: string,
-    private logger: Logger
+    private logger: Logger,
+    private identityProvider?: CustomerIdentityProvider
   ) {}
 
+  /** Whether expired authenticated tokens can be replaced using the identity provider */
+  get canReauthenticate(): boolean {
+    return !!this.identityProvider;
+  }
+
   /**
    * Creates a new authentication token.
+   * When an identity provider is configured and no customer identity token is passed,
+   * the provider is asked for a fresh one and an authenticated token is created.
    * @param {TokenCreateParams} params - Token creation parameters
-   * @returns {Promise<TokenResponse>} Promise containing the created token details
+   * @returns {Promise<TokenResult>} Promise containing the created token details
+   * @throws {IdentityProviderError} If the identity provider fails to supply a token
    */
-  async create(params?: TokenCreateParams): Promise<TokenResponse> {
+  async create(params?: TokenCreateParams): Promise<TokenResult> {
+    if (this.identityProvider && !params?.customerIdentityToken) {
+      params = { ...params, ...(await this.resolveIdentity(this.identityProvider)) };
+    }
+
     const tokenType = this.isAuthenticatedTokenConfig(params) ? 'authenticated' : 'unauthenticated';
 
     this.logger.debug(`Creating ${tokenType} token`);
@@ -48,17 +70,17 @@ export class TokenService {
       this.logger
     );
 
-    const responseData = await response.json() as TokenResponse;
+    const responseData = await response.json() as AccessTokenResponse;
     this.logger.info('Token created successfully');
-    return responseData;
+    return this.transformTokenResponse(responseData);
   }
 
   /**
    * Refreshes an existing authentication token.
    * @param {string} token - Current authentication token
-   * @returns {Promise<TokenResponse>} Promise containing the refreshed token details
+   * @returns {Promise<TokenResult>} Promise containing the refreshed token details
    */
-  async continue(token: string): Promise<TokenResponse> {
+  async continue(token: string): Promise<TokenResult> {
     this.logger.debug('Refreshing token');
 
     const response = await makeRequest<Response>(
@@ -71,9 +93,67 @@ export class TokenService {
       this.logger
     );
 
-    const responseData = await response.json() as TokenResponse;
+    const responseData = await response.json() as AccessTokenResponse;
     this.logger.info('Token refreshed successfully');
-    return responseData;
+    return this.transformTokenResponse(responseData);
+  }
+
+  /**
+   * Transforms a raw access token response into a normalized token result
+   * @param {AccessTokenResponse} response - Raw response from the API
+   * @returns {TokenResult} Normalized token result
+   */
+  private transformTokenResponse(response: AccessTokenResponse): TokenResult {
+    const config = response.context?.configuration?.embeddedServiceConfig;
+    const claims = decodeJwt(response.accessToken);
+
+    return {
+      accessToken: response.accessToken,
+      lastEventId: response.lastEventId,
+      deviceId: response.context?.deviceId,
+      deploymentName: config?.name,
+      deploymentType: config?.deploymentType,
+      channelAddressIdentifier: config?.embeddedServiceMessagingChannel?.channelAddressIdentifier,
+      authMode: config?.embeddedServiceMessagingChannel?.authMode,
+      claims: claims && {
+        subject: claims.sub,
+        issuer: claims.iss,
+        audience: claims.aud,
+        issuedAt: typeof claims.iat === 'number' ? new Date(claims.iat * 1000) : undefined,
+        expiresAt: typeof claims.exp === 'number' ? new Date(claims.exp * 1000) : undefined,
+      },
+    };
+  }
+
+  /**
+   * Requests a customer identity token from the identity provider.
+   * @param {CustomerIdentityProvider} identityProvider - Configured identity provider
+   * @returns {Promise<Required<CustomerIdentity>>} Promise containing the identity token and authorization type
+   * @throws {IdentityProviderError} If the provider throws or returns no token
+   */
+  private async resolveIdentity(
+    identityProvider: CustomerIdentityProvider
+  ): Promise<Required<CustomerIdentity>> {
+    this.logger.debug('Requesting customer identity token');
+
+    let identity: string | CustomerIdentity;
+    try {
+      identity = await identityProvider();
+    } catch (error: unknown) {
+      const identityError = createIdentityProviderError('tokens.create_authenticated_token', error);
+      this.logger.error('Identity provider failed', identityError);
+      throw identityError;
+    }
+
+    const { customerIdentityToken, authorizationType = 'JWT' } =
+      typeof identity === 'string' ? { customerIdentityToken: identity } : identity || {};
+    if (!customerIdentityToken) {
+      const identityError = createIdentityProviderError('tokens.create_authenticated_token', undefined);
+      this.logger.error('Identity provider returned no token', identityError);
+      throw identityError;
+    }
+
+    return { customerIdentityToken, authorizationType };
   }
 
   /**
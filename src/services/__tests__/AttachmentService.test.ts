@@ -0,0 +1,85 @@
+/// <reference types="jest" />
+import { jest } from '@jest/globals';
+import { AttachmentService } from '../AttachmentService.js';
+import type { Attachment, Logger } from '../../types.js';
+import type { MockFetch } from './types.js';
+
+const attachment: Attachment = {
+  id: 'file-1',
+  name: 'invoice.pdf',
+  mimeType: 'application/pdf',
+  url: '/files/file-1',
+};
+
+describe('AttachmentService', () => {
+  let service: AttachmentService;
+  let mockFetch: MockFetch;
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    mockFetch = jest.fn() as unknown as MockFetch;
+    global.fetch = mockFetch as unknown as typeof fetch;
+
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    service = new AttachmentService('https://test.com', mockLogger);
+  });
+
+  it('should stream the attachment with the access token', async () => {
+    mockFetch.mockResolvedValueOnce(
+      new Response('%PDF-1.4', {
+        headers: { 'Content-Type': 'application/pdf', 'Content-Length': '8' },
+      }) as never
+    );
+
+    const result = await service.download('test-token', attachment);
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://test.com/files/file-1',
+      expect.objectContaining({
+        method: 'GET',
+        headers: { Authorization: 'Bearer test-token' },
+      })
+    );
+    expect(result.contentType).toBe('application/pdf');
+    expect(result.contentLength).toBe(8);
+    expect(await new Response(result.stream).text()).toBe('%PDF-1.4');
+  });
+
+  it('should download attachments on other hosts without the access token', async () => {
+    mockFetch.mockResolvedValueOnce(new Response('%PDF-1.4') as never);
+
+    await service.download('test-token', {
+      ...attachment,
+      url: 'https://cdn.example.com/files/file-1',
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://cdn.example.com/files/file-1',
+      expect.objectContaining({ method: 'GET', headers: {} })
+    );
+  });
+
+  it('should report downloads without content as attachment errors', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null) as never);
+
+    await expect(service.download('test-token', attachment)).rejects.toMatchObject({
+      type: 'attachment_error',
+      operation: 'attachments.download_attachment',
+      attachmentId: 'file-1',
+    });
+  });
+
+  it('should report failed downloads with the operation name', async () => {
+    mockFetch.mockResolvedValueOnce(new Response(null, { status: 403 }) as never);
+
+    await expect(service.download('test-token', attachment)).rejects.toMatchObject({
+      operation: 'attachments.download_attachment',
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/// <reference types="jest" />
+import { jest } from '@jest/globals';
+import { BusinessHours, BusinessHoursService } from '../BusinessHoursService.js';
+import type { Logger } from '../../types.js';
+import type { BusinessHoursResponse } from '../../types/api.js';
+import type { MockResponse, MockFetch } from './types.js';
+
+const windows = [
+  { start: new Date('2024-01-01T14:00:00Z'), end: new Date('2024-01-01T22:00:00Z') },
+  { start: new Date('2024-01-02T14:00:00Z'), end: new Date('2024-01-02T22:00:00Z') },
+];
+
+const businessHoursData: BusinessHoursResponse = {
+  businessHoursInfo: {
+    businessHours: [
+      { startTime: 1704204000000, endTime: 1704232800000 },
+      { startTime: 1704117600000, endTime: 1704146400000 },
+    ],
+  },
+};
+
+function createMockResponse(data: unknown, ok = true): MockResponse<unknown> {
+  const mockResponse: MockResponse<unknown> = {
+    ok,
+    status: ok ? 200 : 500,
+    json: () => Promise.resolve(data),
+    text: () => Promise.resolve(JSON.stringify(data)),
+    headers: new Headers({ 'Content-Type': 'application/json' }),
+    statusText: ok ? 'OK' : 'Internal Server Error',
+    type: 'default',
+    url: 'https://test.com/embeddedservice/v1/businesshours',
+    redirected: false,
+    clone: () => mockResponse as unknown as Response,
+    body: null,
+    bodyUsed: false,
+    arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+    blob: () => Promise.resolve(new Blob()),
+    formData: () => Promise.resolve(new FormData()),
+  };
+  return mockResponse;
+}
+
+describe('BusinessHours', () => {
+  const businessHours = new BusinessHours({ windows, timeZone: 'America/New_York' });
+
+  it('should be open inside a window and closed outside', () => {
+    expect(businessHours.isOpen(new Date('2024-01-01T14:00:00Z'))).toBe(true);
+    expect(businessHours.isOpen(new Date('2024-01-01T21:59:59Z'))).toBe(true);
+    expect(businessHours.isOpen(new Date('2024-01-01T22:00:00Z'))).toBe(false);
+    expect(businessHours.isOpen(new Date('2024-01-01T13:59:59Z'))).toBe(false);
+  });
+
+  it('should find the next opening and closing', () => {
+    const closed = new Date('2024-01-01T23:00:00Z');
+    const open = new Date('2024-01-02T15:00:00Z');
+
+    expect(businessHours.nextOpening(closed)).toEqual(windows[1].start);
+    expect(businessHours.nextOpening(open)).toEqual(open);
+    expect(businessHours.nextOpening(new Date('2024-01-03T00:00:00Z'))).toBeUndefined();
+    expect(businessHours.nextClosing(open)).toEqual(windows[1].end);
+    expect(businessHours.nextClosing(closed)).toBeUndefined();
+  });
+
+  it('should format times in the business hours time zone', () => {
+    expect(businessHours.format(windows[0].start, 'en-US')).toBe('Jan 1, 2024, 9:00 AM');
+  });
+
+  it('should always be open without configured windows', () => {
+    const always = new BusinessHours();
+
+    expect(always.isConfigured).toBe(false);
+    expect(always.isOpen()).toBe(true);
+  });
+});
+
+describe('BusinessHoursService', () => {
+  let service: BusinessHoursService;
+  let mockFetch: MockFetch;
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    mockFetch = jest.fn() as unknown as MockFetch;
+    global.fetch = mockFetch as unknown as typeof fetch;
+
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    service = new BusinessHoursService(
+      'https://test.com',
+      'test-org',
+      'test-dev',
+      mockLogger,
+      1000
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should retrieve the business hours windows ordered by start', async () => {
+    mockFetch.mockResolvedValueOnce(createMockResponse(businessHoursData));
+
+    const result = await service.get();
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://test.com/embeddedservice/v1/businesshours?orgId=test-org&esConfigName=test-dev',
+      expect.objectContaining({ method: 'GET' })
+    );
+    expect(result.windows).toEqual(windows);
+    expect(result.isOpen(new Date('2024-01-01T23:00:00Z'))).toBe(false);
+  });
+
+  it('should cache the business hours until the TTL passes', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse(businessHoursData))
+      .mockResolvedValueOnce(createMockResponse(businessHoursData));
+
+    await service.get();
+    await service.get();
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1001);
+    await service.get();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache failed requests', async () => {
+    mockFetch
+      .mockResolvedValueOnce(createMockResponse({}, false))
+      .mockResolvedValueOnce(createMockResponse(businessHoursData));
+
+    await expect(service.get()).rejects.toMatchObject({
+      operation: 'businessHours.retrieve_business_hours',
+    });
+    await expect(service.get()).resolves.toMatchObject({ windows });
+  });
+
+  it('should reject outside business hours with the next opening', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T23:00:00Z') });
+    mockFetch.mockResolvedValueOnce(createMockResponse(businessHoursData));
+
+    await expect(service.assertOpen('conversations.create_conversation')).rejects.toMatchObject({
+      type: 'business_hours_closed',
+      operation: 'conversations.create_conversation',
+      nextOpening: windows[1].start,
+    });
+  });
+
+  it('should resolve inside business hours or without configured windows', async () => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T15:00:00Z') });
+    mockFetch.mockResolvedValueOnce(createMockResponse(businessHoursData));
+
+    await expect(service.assertOpen('conversations.create_conversation')).resolves.toBeUndefined();
+
+    jest.advanceTimersByTime(1001);
+    mockFetch.mockResolvedValueOnce(
+      createMockResponse({ businessHoursInfo: { businessHours: [] } })
+    );
+    await expect(service.assertOpen('conversations.create_conversation')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,193 @@
+/// <reference types="jest" />
+import { jest } from '@jest/globals';
+import { ConfigurationService } from '../ConfigurationService.js';
+import type { Logger } from '../../types.js';
+import type { EmbeddedServiceConfigResponse } from '../../types/api.js';
+import type { MockResponse, MockFetch } from './types.js';
+
+const configData: EmbeddedServiceConfigResponse = {
+  embeddedServiceConfig: {
+    name: 'test-dev',
+    deploymentType: 'Web',
+    embeddedServiceMessagingChannel: {
+      channelAddressIdentifier: 'mock-channel',
+      authMode: 'UnAuth',
+      fileTransfer: {
+        enableFileUpload: true,
+        allowedFileTypes: 'image/png, application/pdf',
+        maxFileSize: 5242880,
+      },
+    },
+    forms: [
+      {
+        formType: 'PreChat',
+        displayContext: 'Conversation',
+        formFields: [
+          { name: 'Topic', label: 'Topic', type: 'ChoiceList', order: 2, choiceListId: 'topics' },
+          {
+            name: '_firstName',
+            label: 'First Name',
+            type: 'Text',
+            order: 1,
+            required: true,
+            maxLength: 20,
+          },
+        ],
+        hiddenFormFields: [{ name: 'CartId', type: 'Text', maxLength: 100 }],
+      },
+    ],
+    choiceListConfig: {
+      choiceList: [
+        {
+          choiceListId: 'topics',
+          choiceListValues: [
+            { choiceListValueName: 'billing', label: 'Billing', order: 2 },
+            { choiceListValueName: 'sales', label: 'Sales', order: 1, isDefaultValue: true },
+          ],
+        },
+      ],
+    },
+    branding: [{ n: 'primaryColor', v: '#0176d3' }],
+  },
+};
+
+function createMockResponse(data: unknown, ok = true): MockResponse<unknown> {
+  const mockResponse: MockResponse<unknown> = {
+    ok,
+    status: ok ? 200 : 500,
+    json: () => Promise.resolve(data),
+    text: () => Promise.resolve(JSON.stringify(data)),
+    headers: new Headers({ 'Content-Type': 'application/json' }),
+    statusText: ok ? 'OK' : 'Internal Server Error',
+    type: 'default',
+    url: 'https://test.com/embeddedservice/v1/embedded-service-config',
+    redirected: false,
+    clone: () => mockResponse as unknown as Response,
+    body: null,
+    bodyUsed: false,
+    arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+    blob: () => Promise.resolve(new Blob()),
+    formData: () => Promise.resolve(new FormData()),
+  };
+  return mockResponse;
+}
+
+describe('ConfigurationService', () => {
+  let service: ConfigurationService;
+  let mockFetch: MockFetch;
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    mockFetch = jest.fn() as unknown as MockFetch;
+    global.fetch = mockFetch as unknown as typeof fetch;
+
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    service = new ConfigurationService(
+      'https://test.com',
+      'test-org',
+      'test-dev',
+      mockLogger,
+      1000
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('get', () => {
+    it('should retrieve and type the deployment configuration', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(configData));
+
+      const result = await service.get({ language: 'en_US' });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.com/embeddedservice/v1/embedded-service-config?orgId=test-org&esConfigName=test-dev&language=en_US',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(result).toEqual({
+        name: 'test-dev',
+        deploymentType: 'Web',
+        channelAddressIdentifier: 'mock-channel',
+        authMode: 'UnAuth',
+        prechatForm: {
+          displayContext: 'Conversation',
+          displayFrequency: undefined,
+          fields: [
+            {
+              name: '_firstName',
+              label: 'First Name',
+              type: 'Text',
+              required: true,
+              maxLength: 20,
+              order: 1,
+              choices: undefined,
+            },
+            {
+              name: 'Topic',
+              label: 'Topic',
+              type: 'ChoiceList',
+              required: false,
+              maxLength: undefined,
+              order: 2,
+              choices: [
+                { value: 'sales', label: 'Sales', order: 1, isDefault: true },
+                { value: 'billing', label: 'Billing', order: 2, isDefault: false },
+              ],
+            },
+          ],
+          hiddenFields: [{ name: 'CartId', type: 'Text', maxLength: 100 }],
+        },
+        branding: { primaryColor: '#0176d3' },
+        attachments: {
+          enabled: true,
+          allowedFileTypes: ['image/png', 'application/pdf'],
+          maxFileSize: 5242880,
+        },
+      });
+    });
+
+    it('should cache the configuration until the TTL passes', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse(configData))
+        .mockResolvedValueOnce(createMockResponse(configData));
+
+      await service.get();
+      await service.get();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      jest.advanceTimersByTime(1001);
+      await service.get();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should bypass the cache when forced', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse(configData))
+        .mockResolvedValueOnce(createMockResponse(configData));
+
+      await service.get();
+      await service.get({ forceRefresh: true });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache failed requests', async () => {
+      mockFetch
+        .mockResolvedValueOnce(createMockResponse({}, false))
+        .mockResolvedValueOnce(createMockResponse(configData));
+
+      await expect(service.get()).rejects.toMatchObject({
+        operation: 'configuration.retrieve_embedded_service_config',
+      });
+      await expect(service.get()).resolves.toMatchObject({ name: 'test-dev' });
+    });
+  });
+});
@@ -1,6 +1,8 @@
 /// <reference types="jest" />
 import { jest } from '@jest/globals';
-import type { Logger } from '../../types.js';
+import { EventService } from '../EventService.js';
+import type { EventStream } from '../EventService.js';
+import type { Logger, SSEOptions } from '../../types.js';
 import type { MockResponse, MockFetch } from './types.js';
 
 const mockUUID = 'mock-uuid';
@@ -171,6 +173,45 @@ describe('ConversationService', () => {
       );
     });
 
+    it('should attribute the sent message to the subject of the access token', async () => {
+      const mockResponse: MockResponse<unknown> = {
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            conversationEntries: [{ id: 'entry-1', clientTimestamp: 1704067200000 }],
+          }),
+        text: () => Promise.resolve(''),
+        headers: new Headers(),
+        statusText: 'OK',
+        type: 'default',
+        url: 'https://test.com/iamessage/api/v2/conversation/conv-id/message',
+        redirected: false,
+        clone: () => mockResponse as unknown as Response,
+        body: null,
+        bodyUsed: false,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+        blob: () => Promise.resolve(new Blob()),
+        formData: () => Promise.resolve(new FormData()),
+      };
+      mockFetch.mockResolvedValueOnce(mockResponse);
+      const claims = Buffer.from(JSON.stringify({ sub: 'end-user-1' })).toString('base64url');
+
+      const result = await service.sendMessage(`header.${claims}.signature`, 'conv-id', {
+        text: 'Hello world',
+      });
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          id: 'entry-1',
+          type: 'Message',
+          format: 'Text',
+          text: 'Hello world',
+          timestamp: '2024-01-01T00:00:00.000Z',
+          sender: { id: 'end-user-1', type: 'EndUser' },
+        })
+      );
+    });
+
     it('should throw error when message text is empty', async () => {
       await expect(service.sendMessage('test-token', 'conv-id', { text: '' })).rejects.toThrow(
         'Message text is required'
@@ -178,6 +219,579 @@ describe('ConversationService', () => {
     });
   });
 
+  describe('sendChoice', () => {
+    it('should send the selected options as a choices response', async () => {
+      const mockResponse: MockResponse<unknown> = {
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            conversationEntries: [{ id: 'mock-uuid', clientTimestamp: 1704067200000 }],
+          }),
+        text: () => Promise.resolve(''),
+        headers: new Headers(),
+        statusText: 'OK',
+        type: 'default',
+        url: 'https://test.com/iamessage/api/v2/conversation/conv-id/message',
+        redirected: false,
+        clone: () => mockResponse as unknown as Response,
+        body: null,
+        bodyUsed: false,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+        blob: () => Promise.resolve(new Blob()),
+        formData: () => Promise.resolve(new FormData()),
+      };
+      mockFetch.mockResolvedValueOnce(mockResponse);
+
+      const result = await service.sendChoice('test-token', 'conv-id', {
+        inReplyToMessageId: 'choices-1',
+        selectedOptions: [{ optionIdentifier: 'opt-1', title: 'Billing' }],
+      });
+
+      expect(result).toMatchObject({
+        type: 'Message',
+        format: 'Selections',
+        selectedOptions: [{ optionIdentifier: 'opt-1', title: 'Billing' }],
+        inReplyToMessageId: 'choices-1',
+      });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.com/iamessage/api/v2/conversation/conv-id/message',
+        expect.objectContaining({
+          body: JSON.stringify({
+            message: {
+              id: 'mock-uuid',
+              messageType: 'ChoicesResponseMessage',
+              choicesResponse: {
+                formatType: 'Selections',
+                inReplyToMessageId: 'choices-1',
+                selectedOptions: [{ optionIdentifier: 'opt-1', title: 'Billing' }],
+              },
+            },
+            esDeveloperName: 'test-dev',
+          }),
+        })
+      );
+    });
+  });
+
+  describe('sendFormResponse', () => {
+    it('should reject incomplete form responses before sending', async () => {
+      await expect(
+        service.sendFormResponse('test-token', 'conv-id', { inReplyToMessageId: '', values: {} })
+      ).rejects.toMatchObject({
+        type: 'validation_error',
+        operation: 'conversations.send_message',
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendFile', () => {
+    const createUploadResponse = (): MockResponse<unknown> => {
+      const mockResponse: MockResponse<unknown> = {
+        ok: true,
+        json: () =>
+          Promise.resolve({
+            conversationEntries: [{ id: 'file-entry', clientTimestamp: 1704067200000 }],
+          }),
+        text: () => Promise.resolve(''),
+        headers: new Headers(),
+        statusText: 'OK',
+        type: 'default',
+        url: 'https://test.com/iamessage/api/v2/conversation/conv-id/file',
+        redirected: false,
+        clone: () => mockResponse as unknown as Response,
+        body: null,
+        bodyUsed: false,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+        blob: () => Promise.resolve(new Blob()),
+        formData: () => Promise.resolve(new FormData()),
+      };
+      return mockResponse;
+    };
+
+    it('should upload a buffer as multipart form data and report progress', async () => {
+      let uploaded = '';
+      mockFetch.mockImplementationOnce(async (_url, init) => {
+        uploaded = await new Response(init?.body).text();
+        return createUploadResponse();
+      });
+      const onProgress = jest.fn();
+
+      const result = await service.sendFile('test-token', 'conv-id', {
+        file: Buffer.from('%PDF-1.4'),
+        fileName: 'invoice.pdf',
+        mimeType: 'application/pdf',
+        text: 'Here is my invoice',
+        onProgress,
+      });
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://test.com/iamessage/api/v2/conversation/conv-id/file');
+      expect((init?.headers as Record<string, string>)['Content-Type']).toBe(
+        'multipart/form-data; boundary=----miaw-client-mock-uuid'
+      );
+      expect(uploaded).toContain(
+        'Content-Disposition: form-data; name="messageEntry"\r\nContent-Type: application/json\r\n\r\n' +
+          JSON.stringify({
+            esDeveloperName: 'test-dev',
+            message: { id: 'mock-uuid', fileId: 'mock-uuid', text: 'Here is my invoice' },
+          })
+      );
+      expect(uploaded).toContain(
+        'Content-Disposition: form-data; name="fileData"; filename="invoice.pdf"\r\nContent-Type: application/pdf\r\n\r\n%PDF-1.4\r\n'
+      );
+      expect(uploaded.endsWith('------miaw-client-mock-uuid--\r\n')).toBe(true);
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 8, total: 8 });
+      expect(result).toMatchObject({
+        id: 'file-entry',
+        type: 'Message',
+        format: 'Attachments',
+        text: 'Here is my invoice',
+      });
+    });
+
+    it('should reject files outside the upload limits before sending', async () => {
+      service = new ConversationService('https://test.com', 'test-dev', mockLogger, 'test-org', {
+        maxFileSize: 4,
+        allowedMimeTypes: ['image/*'],
+      });
+
+      await expect(
+        service.sendFile('test-token', 'conv-id', {
+          file: new Blob(['too large']),
+          fileName: 'notes.txt',
+          mimeType: 'text/plain',
+        })
+      ).rejects.toMatchObject({
+        type: 'validation_error',
+        issues: [
+          expect.objectContaining({ field: 'mimeType', code: 'invalid_type' }),
+          expect.objectContaining({ field: 'file', code: 'max_size' }),
+        ],
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should abort streams that exceed the size limit', async () => {
+      service = new ConversationService('https://test.com', 'test-dev', mockLogger, 'test-org', {
+        maxFileSize: 4,
+      });
+      mockFetch.mockImplementationOnce(async (_url, init) => {
+        await new Response(init?.body).text();
+        return createUploadResponse();
+      });
+
+      await expect(
+        service.sendFile('test-token', 'conv-id', {
+          file: new Blob(['screenshot']).stream(),
+          fileName: 'screenshot.png',
+          mimeType: 'image/png',
+        })
+      ).rejects.toMatchObject({
+        type: 'validation_error',
+        issues: [expect.objectContaining({ field: 'file', code: 'max_size' })],
+      });
+    });
+  });
+
+  describe('iterateEntries', () => {
+    const history = [1000, 2000, 2000, 3000, 4000, 5000].map((timestamp, index) => ({
+      identifier: `entry-${index}`,
+      entryType: 'Message',
+      entryPayload: JSON.stringify({
+        abstractMessage: {
+          messageType: 'StaticContentMessage',
+          id: `msg-${index}`,
+          staticContent: { formatType: 'Text', text: `Message ${index}` },
+        },
+      }),
+      transcriptedTimestamp: timestamp,
+      clientTimestamp: timestamp,
+      sender: { role: 'Agent', subject: 'agent-1' },
+      senderDisplayName: 'Ada',
+    }));
+
+    beforeEach(() => {
+      // Serve pages the way the entries endpoint does: inclusive of the cursor timestamp
+      mockFetch.mockImplementation(async url => {
+        const query = new URL(url).searchParams;
+        const limit = Number(query.get('limit'));
+        const start = Number(query.get('startTimestamp') || 0);
+        const end = Number(query.get('endTimestamp') || Infinity);
+        const fromEnd = query.get('direction') === 'FromEnd';
+        const entries = history
+          .filter(
+            entry => entry.transcriptedTimestamp >= start && entry.transcriptedTimestamp <= end
+          )
+          .sort((a, b) =>
+            fromEnd
+              ? b.transcriptedTimestamp - a.transcriptedTimestamp
+              : a.transcriptedTimestamp - b.transcriptedTimestamp
+          )
+          .slice(0, limit);
+        return new Response(JSON.stringify({ conversationEntries: entries })) as never;
+      });
+    });
+
+    it('should walk the history forward without repeating boundary entries', async () => {
+      const ids: string[] = [];
+      for await (const entry of service.iterateEntries('test-token', 'conv-id', { pageSize: 2 })) {
+        ids.push(entry.id);
+      }
+
+      expect(ids).toEqual(['entry-0', 'entry-1', 'entry-2', 'entry-3', 'entry-4', 'entry-5']);
+      expect(mockFetch.mock.calls[1][0]).toContain('startTimestamp=2000');
+    });
+
+    it('should walk the history backward from the end', async () => {
+      const ids: string[] = [];
+      for await (const entry of service.iterateEntries('test-token', 'conv-id', {
+        direction: 'FromEnd',
+        pageSize: 4,
+      })) {
+        ids.push(entry.id);
+      }
+
+      expect(ids).toEqual(['entry-5', 'entry-4', 'entry-3', 'entry-1', 'entry-2', 'entry-0']);
+    });
+
+    it('should stop requesting pages when the consumer stops', async () => {
+      for await (const entry of service.iterateEntries('test-token', 'conv-id', { pageSize: 2 })) {
+        expect(entry.id).toBe('entry-0');
+        break;
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('listAll', () => {
+    const message = (id: string, timestamp: number, role: string, text: string) => ({
+      identifier: id,
+      entryType: 'Message',
+      entryPayload: JSON.stringify({
+        abstractMessage: {
+          messageType: 'StaticContentMessage',
+          id,
+          staticContent: { formatType: 'Text', text },
+        },
+      }),
+      transcriptedTimestamp: timestamp,
+      clientTimestamp: timestamp,
+      sender: { role, subject: `${role}-1` },
+      senderDisplayName: role === 'Agent' ? 'Ada' : 'Sam',
+    });
+    const readReceipt = (id: string, timestamp: number, entryId: string) => ({
+      identifier: id,
+      entryType: 'ReadAcknowledgement',
+      entryPayload: JSON.stringify({ acknowledgedConversationEntryIdentifier: entryId }),
+      clientTimestamp: timestamp,
+      sender: { role: 'EndUser', subject: 'EndUser-1' },
+    });
+    const entries: Record<string, unknown[]> = {
+      'conv-open': [
+        message('m4', 4000, 'Agent', 'Anything else?'),
+        message('m3', 3000, 'Agent', 'Your order has shipped'),
+        readReceipt('r1', 2500, 'm2'),
+        message('m2', 2000, 'Agent', 'Let me check'),
+        message('m1', 1000, 'EndUser', 'Where is my order?'),
+      ],
+      'conv-closed': [message('m5', 5000, 'EndUser', 'Thanks!')],
+    };
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(async url => {
+        if (url.includes('/conversation/list')) {
+          return new Response(
+            JSON.stringify({
+              conversations: [
+                {
+                  conversationId: 'conv-closed',
+                  conversationStatus: 'Closed',
+                  routingStatus: 'Closed',
+                },
+                {
+                  conversationId: 'conv-open',
+                  conversationStatus: 'Open',
+                  routingStatus: 'Routed',
+                },
+              ],
+            })
+          ) as never;
+        }
+        const id = url.match(/conversation\/([^/]+)\/entries/)?.[1] || '';
+        return new Response(JSON.stringify({ conversationEntries: entries[id] })) as never;
+      });
+    });
+
+    it('should summarize open conversations with a preview and unread count', async () => {
+      const conversations = await service.listAll('test-token');
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://test.com/iamessage/api/v2/conversation/list?inclClosedConvs=false'
+      );
+      expect(mockFetch.mock.calls[1][0]).toContain('direction=FromEnd');
+      expect(conversations).toEqual([
+        {
+          id: 'conv-open',
+          status: 'Routed',
+          isActive: true,
+          lastEntry: expect.objectContaining({ senderName: 'Ada', text: 'Anything else?' }),
+          lastActivity: new Date(4000).toISOString(),
+          unreadCount: 2,
+        },
+      ]);
+    });
+
+    it('should include closed conversations, most recently active first', async () => {
+      const conversations = await service.listAll('test-token', { includeClosed: true, limit: 5 });
+
+      expect(mockFetch.mock.calls[0][0]).toContain('inclClosedConvs=true&limit=5');
+      expect(
+        conversations.map(({ id, isActive, unreadCount }) => ({ id, isActive, unreadCount }))
+      ).toEqual([
+        { id: 'conv-closed', isActive: false, unreadCount: 0 },
+        { id: 'conv-open', isActive: true, unreadCount: 2 },
+      ]);
+    });
+
+    it('should fetch entries only for conversations within the limit, a few at a time', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      mockFetch.mockImplementation(async url => {
+        if (url.includes('/conversation/list')) {
+          const conversations = Array.from({ length: 12 }, (_, index) => ({
+            conversationId: `conv-${index}`,
+            conversationStatus: 'Open',
+            routingStatus: 'Routed',
+            lastActiveTimestamp: index * 1000,
+          }));
+          return new Response(JSON.stringify({ conversations })) as never;
+        }
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight--;
+        return new Response(JSON.stringify({ conversationEntries: [] })) as never;
+      });
+
+      const conversations = await service.listAll('test-token', { limit: 6 });
+
+      expect(conversations.map(({ id }) => id)).toEqual([
+        'conv-11',
+        'conv-10',
+        'conv-9',
+        'conv-8',
+        'conv-7',
+        'conv-6',
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(7);
+      expect(maxInFlight).toBeLessThanOrEqual(4);
+    });
+  });
+
+  describe('transcript', () => {
+    it('should return the transcript document with its metadata', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response('%PDF-1.4', {
+          headers: {
+            'Content-Type': 'application/pdf',
+            'Content-Length': '8',
+            'Content-Disposition': 'attachment; filename="transcript-conv-id.pdf"',
+          },
+        }) as never
+      );
+
+      const result = await service.transcript('test-token', 'conv-id');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.com/iamessage/api/v2/conversation/conv-id/transcript?esDeveloperName=test-dev',
+        expect.objectContaining({
+          method: 'GET',
+          headers: { Accept: 'application/pdf', Authorization: 'Bearer test-token' },
+        })
+      );
+      expect(result).toMatchObject({
+        contentType: 'application/pdf',
+        contentLength: 8,
+        fileName: 'transcript-conv-id.pdf',
+      });
+      expect((await result.buffer()).toString()).toBe('%PDF-1.4');
+    });
+
+    it('should stream the document without buffering it, or stream it from the buffer', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('%PDF-1.4') as never)
+        .mockResolvedValueOnce(new Response('%PDF-1.5') as never);
+
+      const streamFirst = await service.transcript('test-token', 'conv-id');
+      expect(await new Response(streamFirst.stream).text()).toBe('%PDF-1.4');
+      await expect(streamFirst.buffer()).rejects.toThrow('already been read as a stream');
+
+      const bufferFirst = await service.transcript('test-token', 'conv-id');
+      expect((await bufferFirst.buffer()).toString()).toBe('%PDF-1.5');
+      expect(await new Response(bufferFirst.stream).text()).toBe('%PDF-1.5');
+      expect((await bufferFirst.buffer()).toString()).toBe('%PDF-1.5');
+    });
+
+    it('should report failures through the standard error', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 404 }) as never);
+
+      await expect(service.transcript('test-token', 'conv-id')).rejects.toMatchObject({
+        operation: 'conversations.retrieve_transcript',
+      });
+    });
+  });
+
+  describe('status', () => {
+    it('should build the status from the routing status response', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(
+          JSON.stringify({
+            conversationId: 'conv-id',
+            routingStatus: 'Waiting',
+            conversationStatus: 'Open',
+            lastActivityTimestamp: 1704067200000,
+            estimatedWaitTime: { estimatedWaitTimeInSeconds: 90 },
+          })
+        ) as never
+      );
+
+      await expect(service.status('test-token', 'conv-id')).resolves.toEqual({
+        id: 'conv-id',
+        status: 'Waiting',
+        rawStatus: 'Waiting',
+        lastActivityTimestamp: '2024-01-01T00:00:00.000Z',
+        estimatedWaitTime: 90,
+        isActive: true,
+      });
+    });
+
+    it('should report closed and unrecognized statuses', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ conversationId: 'conv-id', routingStatus: 'Closed' })
+          ) as never
+        )
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({ conversationId: 'conv-id', routingStatus: 'Parked' })
+          ) as never
+        );
+
+      await expect(service.status('test-token', 'conv-id')).resolves.toMatchObject({
+        status: 'Closed',
+        isActive: false,
+      });
+      await expect(service.status('test-token', 'conv-id')).resolves.toMatchObject({
+        status: 'Unknown',
+        rawStatus: 'Parked',
+        isActive: true,
+      });
+    });
+  });
+
+  describe('waitForRouting', () => {
+    const statusResponse = (routingStatus: string): never =>
+      new Response(JSON.stringify({ conversationId: 'conv-id', routingStatus })) as never;
+
+    it('should poll until the conversation is routed', async () => {
+      mockFetch
+        .mockResolvedValueOnce(statusResponse('Initial'))
+        .mockResolvedValueOnce(statusResponse('Waiting'))
+        .mockResolvedValueOnce(statusResponse('Routed'));
+
+      const status = await service.waitForRouting('test-token', 'conv-id', { pollInterval: 1 });
+
+      expect(status.status).toBe('Routed');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should check the status as soon as a routing event for the conversation arrives', async () => {
+      const eventService = new EventService('https://test.com', 'test-org', mockLogger);
+      const close = jest.fn();
+      let options: SSEOptions | undefined;
+      const createStream = jest
+        .spyOn(eventService, 'createEventSourceStream')
+        .mockImplementation((_token, streamOptions) => {
+          options = streamOptions;
+          return { close } as unknown as EventStream;
+        });
+      service = new ConversationService(
+        'https://test.com',
+        'test-dev',
+        mockLogger,
+        'test-org',
+        {},
+        eventService
+      );
+      mockFetch
+        .mockResolvedValueOnce(statusResponse('Waiting'))
+        .mockResolvedValueOnce(statusResponse('Routed'));
+
+      const waiting = service.waitForRouting('test-token', 'conv-id', { pollInterval: 60000 });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      // Another conversation's entry quoting the conversation ID is not a routing event for it
+      options?.onEvent?.({
+        event: 'CONVERSATION_ROUTING_RESULT',
+        data: JSON.stringify({
+          conversationId: 'other-conv-id',
+          conversationEntry: { identifier: 'e1', entryPayload: '{"quoted":"conv-id"}' },
+        }),
+      });
+      await new Promise(resolve => setTimeout(resolve, 0));
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      options?.onEvent?.({
+        event: 'CONVERSATION_ROUTING_RESULT',
+        data: JSON.stringify({
+          conversationId: 'conv-id',
+          conversationEntry: { identifier: 'e2' },
+        }),
+      });
+
+      await expect(waiting).resolves.toMatchObject({ status: 'Routed' });
+      expect(createStream).toHaveBeenCalledTimes(1);
+      expect(close).toHaveBeenCalled();
+    });
+
+    it('should resolve early when the conversation closes', async () => {
+      mockFetch.mockResolvedValueOnce(statusResponse('Closed'));
+
+      await expect(service.waitForRouting('test-token', 'conv-id')).resolves.toMatchObject({
+        status: 'Closed',
+        isActive: false,
+      });
+    });
+
+    it('should reject when the timeout passes or the signal aborts', async () => {
+      mockFetch.mockImplementation(async () => statusResponse('Waiting'));
+
+      await expect(
+        service.waitForRouting('test-token', 'conv-id', { timeout: 20, pollInterval: 5 })
+      ).rejects.toMatchObject({
+        type: 'timeout_error',
+        operation: 'conversations.wait_for_routing',
+      });
+
+      const controller = new AbortController();
+      const waiting = service.waitForRouting('test-token', 'conv-id', {
+        signal: controller.signal,
+      });
+      controller.abort(new Error('User left'));
+      await expect(waiting).rejects.toThrow('User left');
+    });
+
+    it('should reject on authentication errors instead of polling', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 401 }) as never);
+
+      await expect(service.waitForRouting('test-token', 'conv-id')).rejects.toMatchObject({
+        type: 'authentication_error',
+      });
+    });
+  });
+
   describe('close', () => {
     it('should close a conversation successfully', async () => {
       const mockResponse: MockResponse<{ success: boolean }> = {
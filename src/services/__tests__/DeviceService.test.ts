@@ -0,0 +1,144 @@
+/// <reference types="jest" />
+import { jest } from '@jest/globals';
+import { DeviceService } from '../DeviceService.js';
+import type { DeviceRegistrationParams, Logger } from '../../types.js';
+import type { MockResponse, MockFetch } from './types.js';
+
+function createMockResponse(status: number): MockResponse<Record<string, never>> {
+  const mockResponse: MockResponse<Record<string, never>> = {
+    ok: status >= 200 && status < 300,
+    status,
+    json: () => Promise.resolve({}),
+    text: () => Promise.resolve(''),
+    headers: new Headers(),
+    statusText: '',
+    type: 'default',
+    url: 'https://test.com/iamessage/api/v2/device/registration',
+    redirected: false,
+    clone: () => mockResponse as unknown as Response,
+    body: null,
+    bodyUsed: false,
+    arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+    blob: () => Promise.resolve(new Blob()),
+    formData: () => Promise.resolve(new FormData()),
+  };
+  return mockResponse;
+}
+
+describe('DeviceService', () => {
+  let service: DeviceService;
+  let mockFetch: MockFetch;
+  let mockLogger: Logger;
+
+  beforeEach(() => {
+    mockFetch = jest.fn() as unknown as MockFetch;
+    global.fetch = mockFetch as unknown as typeof fetch;
+
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+
+    service = new DeviceService('https://test.com', mockLogger);
+  });
+
+  describe('register', () => {
+    it('should register an APNs device', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(201));
+
+      const result = await service.register('test-token', {
+        deviceToken: 'apns-token',
+        apnsBundleId: 'com.example.app',
+      });
+
+      expect(result).toEqual({ success: true });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.com/iamessage/api/v2/device/registration',
+        expect.objectContaining({
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: 'Bearer test-token',
+          },
+          body: JSON.stringify({
+            deviceToken: 'apns-token',
+            pushNotificationProvider: 'APNS',
+            apnsBundleId: 'com.example.app',
+          }),
+        })
+      );
+    });
+
+    it('should register an FCM device', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(201));
+
+      await service.register('test-token', { deviceToken: 'fcm-token', fcm: true });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.com/iamessage/api/v2/device/registration',
+        expect.objectContaining({
+          body: JSON.stringify({ deviceToken: 'fcm-token', pushNotificationProvider: 'FCM' }),
+        })
+      );
+    });
+
+    it('should reject incomplete registrations without calling the API', async () => {
+      const params = { deviceToken: '' } as unknown as DeviceRegistrationParams;
+
+      await expect(service.register('test-token', params)).rejects.toMatchObject({
+        type: 'validation_error',
+        operation: 'devices.register_device',
+        issues: [
+          { field: 'deviceToken', code: 'required', message: 'deviceToken is required' },
+          {
+            field: 'apnsBundleId',
+            code: 'invalid_provider',
+            message: 'Exactly one of apnsBundleId or fcm must be provided',
+          },
+        ],
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should surface API errors with the operation name', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(403));
+
+      await expect(
+        service.register('test-token', { deviceToken: 'fcm-token', fcm: true })
+      ).rejects.toMatchObject({
+        statusCode: 403,
+        operation: 'devices.register_device',
+        type: 'permission_error',
+      });
+    });
+  });
+
+  describe('unregister', () => {
+    it('should unregister the device', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(204));
+
+      const result = await service.unregister('test-token');
+
+      expect(result).toEqual({ success: true });
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.com/iamessage/api/v2/device/registration',
+        expect.objectContaining({
+          method: 'DELETE',
+          headers: { Authorization: 'Bearer test-token' },
+        })
+      );
+    });
+
+    it('should surface API errors with the operation name', async () => {
+      mockFetch.mockResolvedValueOnce(createMockResponse(404));
+
+      await expect(service.unregister('test-token')).rejects.toMatchObject({
+        statusCode: 404,
+        operation: 'devices.unregister_device',
+        type: 'not_found',
+      });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 /// <reference types="jest" />
 import { jest } from '@jest/globals';
+import { parseConversationEntry } from '../../utils/entries.js';
 import type { Logger } from '../../types.js';
 
 const mockCreateEventSource = jest.fn();
@@ -49,11 +50,19 @@ describe('EventService', () => {
           'X-Org-Id': 'test-org',
           'Last-Event-Id': 'test-event-id',
         },
+        fetch: expect.any(Function),
         onConnect: expect.any(Function),
-        onDisconnect: expect.any(Function),
-        onMessage: options.onEvent,
+        onScheduleReconnect: expect.any(Function),
+        onMessage: expect.any(Function),
       });
-      expect(result).toBe(mockEventSource);
+      expect(result.lastEventId).toBe('test-event-id');
+
+      result.close();
+      result.close();
+      expect(mockEventSource.close).toHaveBeenCalled();
+      expect(options.onClose).toHaveBeenCalledTimes(1);
+      expect(options.onClose).toHaveBeenCalledWith('closed', undefined);
+      expect(result.readyState).toBe('closed');
     });
 
     it('should throw error when token is missing', () => {
@@ -79,17 +88,334 @@ describe('EventService', () => {
       const options = {
         onEvent: jest.fn(),
         onOpen: jest.fn(),
+        onClose: jest.fn(),
       };
 
-      service.createEventSourceStream('test-token', options);
+      const stream = service.createEventSourceStream('test-token', options);
 
       savedConfig.onConnect();
       expect(options.onOpen).toHaveBeenCalled();
       expect(mockLogger.info).toHaveBeenCalledWith('EventSource connection opened');
+      expect(stream.readyState).toBe('open');
 
-      savedConfig.onDisconnect();
+      savedConfig.onScheduleReconnect({ delay: 2000 });
       expect(mockEventSource.close).toHaveBeenCalled();
       expect(mockLogger.info).toHaveBeenCalledWith('SSE disconnected. Preventing auto reconnect.');
+      expect(options.onClose).toHaveBeenCalledWith('ended', undefined);
+    });
+
+    describe('reconnect', () => {
+      type SourceConfig = {
+        headers: Record<string, string>;
+        onConnect: () => void;
+        onScheduleReconnect: (info: { delay: number }) => void;
+        onMessage: (message: { id?: string; event?: string; data: string }) => void;
+      };
+      let configs: SourceConfig[];
+      let sources: Array<{ close: jest.Mock }>;
+
+      beforeEach(() => {
+        jest.useFakeTimers();
+        configs = [];
+        sources = [];
+        mockCreateEventSource.mockImplementation(config => {
+          configs.push(config as SourceConfig);
+          sources.push({ close: jest.fn() });
+          return sources[sources.length - 1];
+        });
+      });
+
+      afterEach(() => {
+        jest.useRealTimers();
+      });
+
+      it('should reconnect with backoff from the last event received', () => {
+        const options = {
+          reconnect: { initialDelay: 1000, multiplier: 2, jitter: 0 },
+          onReconnecting: jest.fn(),
+          onReconnected: jest.fn(),
+        };
+        const stream = service.createEventSourceStream('test-token', options);
+
+        configs[0].onConnect();
+        configs[0].onMessage({ id: '1500', event: 'CONVERSATION_MESSAGE', data: '{}' });
+        configs[0].onScheduleReconnect({ delay: 2000 });
+
+        expect(sources[0].close).toHaveBeenCalled();
+        expect(options.onReconnecting).toHaveBeenCalledWith({ attempt: 1, delay: 1000 });
+        expect(stream.readyState).toBe('reconnecting');
+
+        jest.advanceTimersByTime(1000);
+        expect(configs[1].headers['Last-Event-Id']).toBe('1500');
+
+        configs[1].onScheduleReconnect({ delay: 2000 });
+        expect(options.onReconnecting).toHaveBeenLastCalledWith({ attempt: 2, delay: 2000 });
+
+        jest.advanceTimersByTime(2000);
+        configs[2].onConnect();
+        expect(options.onReconnected).toHaveBeenCalledWith(2);
+        expect(stream.readyState).toBe('open');
+        stream.close();
+      });
+
+      it('should give up after the maximum number of attempts', () => {
+        const options = {
+          reconnect: { maxAttempts: 2, initialDelay: 100, jitter: 0 },
+          onClose: jest.fn(),
+        };
+        const stream = service.createEventSourceStream('test-token', options);
+
+        configs[0].onScheduleReconnect({ delay: 2000 });
+        jest.advanceTimersByTime(100);
+        configs[1].onScheduleReconnect({ delay: 2000 });
+        jest.advanceTimersByTime(200);
+        configs[2].onScheduleReconnect({ delay: 2000 });
+        jest.advanceTimersByTime(60000);
+
+        expect(configs).toHaveLength(3);
+        expect(options.onClose).toHaveBeenCalledTimes(1);
+        expect(options.onClose).toHaveBeenCalledWith('gave_up', undefined);
+        expect(stream.readyState).toBe('closed');
+      });
+
+      it('should wait while offline and reconnect when the network returns', () => {
+        const network = new EventTarget();
+        Object.assign(globalThis, {
+          addEventListener: network.addEventListener.bind(network),
+          removeEventListener: network.removeEventListener.bind(network),
+        });
+
+        try {
+          const options = {
+            reconnect: { initialDelay: 1000, jitter: 0 },
+            onReconnecting: jest.fn(),
+          };
+          const stream = service.createEventSourceStream('test-token', options);
+
+          network.dispatchEvent(new Event('offline'));
+          configs[0].onScheduleReconnect({ delay: 2000 });
+          jest.advanceTimersByTime(60000);
+          expect(configs).toHaveLength(1);
+
+          network.dispatchEvent(new Event('online'));
+          expect(options.onReconnecting).toHaveBeenCalledWith({ attempt: 1, delay: 0 });
+          jest.advanceTimersByTime(0);
+          expect(configs).toHaveLength(2);
+          stream.close();
+        } finally {
+          const globals = globalThis as Partial<typeof globalThis>;
+          delete globals.addEventListener;
+          delete globals.removeEventListener;
+        }
+      });
+    });
+
+    describe('backfill', () => {
+      type SourceConfig = {
+        onConnect: () => void;
+        onScheduleReconnect: (info: { delay: number }) => void;
+        onMessage: (message: { id?: string; event?: string; data: string }) => void;
+      };
+      let configs: SourceConfig[];
+      let loadEntries: jest.Mock<any>;
+      let loaded: ReturnType<typeof messageData>[];
+
+      const messageData = (id: string, timestamp: number) => ({
+        identifier: id,
+        entryType: 'Message',
+        entryPayload: JSON.stringify({
+          abstractMessage: {
+            messageType: 'StaticContentMessage',
+            id,
+            staticContent: { formatType: 'Text', text: id },
+          },
+        }),
+        clientTimestamp: timestamp,
+        sender: { role: 'Agent', subject: 'agent-1' },
+      });
+      const messageEvent = (id: string, timestamp: number) => ({
+        id: String(timestamp),
+        event: 'CONVERSATION_MESSAGE',
+        data: JSON.stringify({
+          conversationId: 'conv-id',
+          conversationEntry: messageData(id, timestamp),
+        }),
+      });
+      const flush = () => new Promise(resolve => setImmediate(resolve));
+      const received = (onMessage: jest.Mock) =>
+        onMessage.mock.calls.map(([event]) => (event as { entry: { id: string } }).entry.id);
+
+      beforeEach(() => {
+        configs = [];
+        loaded = [];
+        loadEntries = jest.fn(async function* () {
+          yield* loaded.map(data => parseConversationEntry(data));
+        });
+        mockCreateEventSource.mockImplementation(config => {
+          configs.push(config as SourceConfig);
+          return { close: jest.fn() };
+        });
+        service = new EventService('https://test.com', 'test-org', mockLogger, loadEntries);
+      });
+
+      it('should backfill missed entries before newer events when resuming', async () => {
+        loaded = [messageData('m1', 1000), messageData('m2', 2000), messageData('m3', 3000)];
+        const options = {
+          // Event IDs are opaque, so backfill starts from the last entry received
+          lastEventId: 'opaque-event-id',
+          lastEntryTimestamps: { 'conv-id': 1000 },
+          onMessage: jest.fn(),
+        };
+        service.createEventSourceStream('test-token', options);
+
+        configs[0].onConnect();
+        configs[0].onMessage(messageEvent('m3', 3000));
+        configs[0].onMessage(messageEvent('m4', 4000));
+        await flush();
+
+        expect(loadEntries).toHaveBeenCalledWith('test-token', 'conv-id', 1000);
+        expect(received(options.onMessage)).toEqual(['m2', 'm3', 'm4']);
+      });
+
+      it('should backfill conversations seen on the stream after reconnecting', async () => {
+        const options = { reconnect: { initialDelay: 0, jitter: 0 }, onMessage: jest.fn() };
+        const stream = service.createEventSourceStream('test-token', options);
+
+        configs[0].onConnect();
+        configs[0].onMessage(messageEvent('m1', 1000));
+        expect(loadEntries).not.toHaveBeenCalled();
+
+        loaded = [messageData('m1', 1000), messageData('m2', 2000)];
+        configs[0].onScheduleReconnect({ delay: 2000 });
+        await new Promise(resolve => setTimeout(resolve, 0));
+        configs[1].onConnect();
+        await flush();
+
+        expect(loadEntries).toHaveBeenCalledWith('test-token', 'conv-id', 1000);
+        expect(received(options.onMessage)).toEqual(['m1', 'm2']);
+        expect(stream.lastEntryTimestamps).toEqual({ 'conv-id': 2000 });
+        stream.close();
+      });
+
+      it('should not backfill when disabled', async () => {
+        const options = {
+          lastEntryTimestamps: { 'conv-id': 1000 },
+          backfill: false,
+          onMessage: jest.fn(),
+        };
+        service.createEventSourceStream('test-token', options);
+
+        configs[0].onConnect();
+        configs[0].onMessage(messageEvent('m2', 2000));
+        await flush();
+
+        expect(loadEntries).not.toHaveBeenCalled();
+        expect(received(options.onMessage)).toEqual(['m2']);
+      });
+    });
+
+    describe('event handlers', () => {
+      let onMessage: (message: { id?: string; event?: string; data: string }) => void;
+
+      const entryEvent = (event: string, entryType: string, entryPayload: unknown) => ({
+        id: '1000',
+        event,
+        data: JSON.stringify({
+          conversationId: 'conv-id',
+          conversationEntry: {
+            identifier: 'entry-1',
+            entryType,
+            entryPayload: JSON.stringify(entryPayload),
+            clientTimestamp: 1000,
+            sender: { role: 'Agent', subject: 'agent-1' },
+          },
+        }),
+      });
+
+      beforeEach(() => {
+        mockCreateEventSource.mockImplementation(config => {
+          onMessage = (config as { onMessage: typeof onMessage }).onMessage;
+          return { close: jest.fn() };
+        });
+      });
+
+      it('should parse events and pass them to the handler for their type', () => {
+        const options = {
+          onEvent: jest.fn(),
+          onMessage: jest.fn(),
+          onTyping: jest.fn(),
+          onReceipt: jest.fn(),
+          onUnknown: jest.fn(),
+        };
+        service.createEventSourceStream('test-token', options);
+
+        const message = entryEvent('CONVERSATION_MESSAGE', 'Message', {
+          abstractMessage: {
+            messageType: 'StaticContentMessage',
+            id: 'msg-1',
+            staticContent: { formatType: 'Text', text: 'Hello' },
+          },
+        });
+        onMessage(message);
+        onMessage(
+          entryEvent('CONVERSATION_TYPING_STARTED_INDICATOR', 'TypingStartedIndicator', {})
+        );
+        onMessage(
+          entryEvent('CONVERSATION_READ_ACKNOWLEDGEMENT', 'ReadAcknowledgement', {
+            acknowledgedConversationEntryIdentifier: 'msg-1',
+          })
+        );
+
+        expect(options.onEvent).toHaveBeenCalledWith(message);
+        expect(options.onMessage).toHaveBeenCalledWith({
+          id: '1000',
+          type: 'CONVERSATION_MESSAGE',
+          conversationId: 'conv-id',
+          entry: expect.objectContaining({ type: 'Message', text: 'Hello' }),
+          data: JSON.parse(message.data),
+        });
+        expect(options.onTyping).toHaveBeenCalledWith(
+          expect.objectContaining({
+            entry: expect.objectContaining({ type: 'TypingStartedIndicator' }),
+          })
+        );
+        expect(options.onReceipt).toHaveBeenCalledWith(
+          expect.objectContaining({
+            entry: expect.objectContaining({ acknowledgedEntryId: 'msg-1' }),
+          })
+        );
+        expect(options.onUnknown).not.toHaveBeenCalled();
+      });
+
+      it('should pass unrecognized and malformed events to the unknown handler', () => {
+        const options = { onMessage: jest.fn(), onUnknown: jest.fn(), onError: jest.fn() };
+        service.createEventSourceStream('test-token', options);
+
+        const unknown = { event: 'CONVERSATION_SESSION_STATUS_CHANGED', data: '{}' };
+        const malformed = { event: 'CONVERSATION_MESSAGE', data: '{not json' };
+        const mismatched = entryEvent('CONVERSATION_MESSAGE', 'CloseConversation', {});
+
+        expect(() => {
+          onMessage(unknown);
+          onMessage(malformed);
+          onMessage(mismatched);
+        }).not.toThrow();
+
+        expect(options.onMessage).not.toHaveBeenCalled();
+        expect(options.onUnknown).toHaveBeenCalledWith(
+          unknown,
+          'Unknown event type: CONVERSATION_SESSION_STATUS_CHANGED'
+        );
+        expect(options.onUnknown).toHaveBeenCalledWith(malformed, 'Event data is not valid JSON');
+        expect(options.onUnknown).toHaveBeenCalledWith(
+          mismatched,
+          'Unexpected CloseConversation entry in CONVERSATION_MESSAGE event'
+        );
+        expect(options.onError).toHaveBeenCalledTimes(1);
+        expect(options.onError).toHaveBeenCalledWith(
+          expect.objectContaining({ type: 'event_stream_error', code: 'parse_error' })
+        );
+      });
     });
   });
-}); 
\ No newline at end of file
+});
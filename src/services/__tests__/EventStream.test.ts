@@ -0,0 +1,204 @@
+/// <reference types="jest" />
+import { jest } from '@jest/globals';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { EventService } from '../EventService.js';
+import type { Logger, SSEOptions } from '../../types.js';
+
+type Handler = (req: IncomingMessage, res: ServerResponse, attempt: number) => void;
+
+function sendEvents(res: ServerResponse, events: string[]): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+  res.flushHeaders();
+  for (const event of events) {
+    res.write(`${event}\n\n`);
+  }
+}
+
+describe('EventStream', () => {
+  let server: Server;
+  let service: EventService;
+  let requests: IncomingMessage[];
+  let handler: Handler;
+
+  beforeEach(async () => {
+    requests = [];
+    server = createServer((req, res) => {
+      requests.push(req);
+      handler(req, res, requests.length);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    const mockLogger: Logger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    const { port } = server.address() as AddressInfo;
+    service = new EventService(`http://127.0.0.1:${port}`, 'test-org', mockLogger);
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  function openStream(options: SSEOptions = {}) {
+    let resolveClosed: () => void;
+    const closed = new Promise<void>(resolve => {
+      resolveClosed = resolve;
+    });
+    const onClose = jest.fn(() => resolveClosed());
+    const onError = jest.fn();
+    const stream = service.createEventSourceStream('test-token', { ...options, onClose, onError });
+    return { stream, closed, onClose, onError };
+  }
+
+  it('should close without retrying when the token has expired', async () => {
+    handler = (_req, res) => res.writeHead(401).end('{"message":"Unauthorized"}');
+
+    const { stream, closed, onClose, onError } = openStream({
+      reconnect: { initialDelay: 10, jitter: 0 },
+    });
+    await closed;
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'auth_expired', statusCode: 401 })
+    );
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledWith(
+      'error',
+      expect.objectContaining({ code: 'auth_expired' })
+    );
+    expect(stream.readyState).toBe('closed');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should close without retrying when access is forbidden', async () => {
+    handler = (_req, res) => res.writeHead(403).end();
+
+    const { closed, onClose, onError } = openStream({ reconnect: true });
+    await closed;
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'forbidden', statusCode: 403 })
+    );
+    expect(onClose).toHaveBeenCalledWith('error', expect.objectContaining({ code: 'forbidden' }));
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should retry server errors and give up after the maximum number of attempts', async () => {
+    handler = (_req, res) => res.writeHead(503).end();
+    const onReconnecting = jest.fn();
+
+    const { closed, onClose, onError } = openStream({
+      reconnect: { maxAttempts: 2, initialDelay: 10, jitter: 0 },
+      onReconnecting,
+    });
+    await closed;
+
+    expect(onError).toHaveBeenCalledTimes(3);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'server_error', statusCode: 503 })
+    );
+    expect(onReconnecting).toHaveBeenCalledTimes(2);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledWith(
+      'gave_up',
+      expect.objectContaining({ code: 'server_error' })
+    );
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should close on network errors without a reconnect policy', async () => {
+    handler = req => req.socket.destroy();
+
+    const { closed, onClose, onError } = openStream();
+    await closed;
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'network' }));
+    expect(onClose).toHaveBeenCalledWith('error', expect.objectContaining({ code: 'network' }));
+  });
+
+  it('should report a connection lost after the stream opened as a network error', async () => {
+    handler = (req, res) => {
+      sendEvents(res, ['id: 1500\nevent: PING\ndata: {}']);
+      setTimeout(() => req.socket.destroy(), 10);
+    };
+    const onEvent = jest.fn();
+
+    const { stream, closed, onClose, onError } = openStream({ onEvent });
+    await closed;
+
+    expect(onEvent).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'network' }));
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledWith('error', expect.objectContaining({ code: 'network' }));
+    expect(stream.lastEventId).toBe('1500');
+  });
+
+  it('should recover from network errors and resume after the last event', async () => {
+    handler = (req, res, attempt) => {
+      if (attempt === 1) {
+        sendEvents(res, ['id: 1500\nevent: CONVERSATION_MESSAGE\ndata: {}']);
+        setTimeout(() => req.socket.destroy(), 10);
+      } else {
+        sendEvents(res, []);
+      }
+    };
+
+    let resolveReconnected: () => void;
+    const reconnected = new Promise<void>(resolve => {
+      resolveReconnected = resolve;
+    });
+    const onReconnected = jest.fn(() => resolveReconnected());
+
+    const { stream, onClose, onError } = openStream({
+      reconnect: { initialDelay: 10, jitter: 0 },
+      onReconnected,
+    });
+    await reconnected;
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'network' }));
+    expect(onReconnected).toHaveBeenCalledWith(1);
+    expect(requests[1].headers['last-event-id']).toBe('1500');
+    expect(stream.readyState).toBe('open');
+
+    stream.close();
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledWith('closed', undefined);
+  });
+
+  it('should report malformed events as parse errors and stay open', async () => {
+    handler = (_req, res) => sendEvents(res, ['event: CONVERSATION_MESSAGE\ndata: {not json']);
+
+    let resolveErrored: () => void;
+    const errored = new Promise<void>(resolve => {
+      resolveErrored = resolve;
+    });
+    const { stream, onClose, onError } = openStream({ onUnknown: () => resolveErrored() });
+    await errored;
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'parse_error', message: expect.stringContaining('JSON') })
+    );
+    expect(stream.readyState).toBe('open');
+    expect(onClose).not.toHaveBeenCalled();
+
+    stream.close();
+    expect(onClose).toHaveBeenCalledWith('closed', undefined);
+  });
+
+  it('should close as ended when the server ends the stream', async () => {
+    handler = (_req, res) => res.writeHead(204).end();
+
+    const { closed, onClose, onError } = openStream({ reconnect: true });
+    await closed;
+
+    expect(onError).not.toHaveBeenCalled();
+    expect(onClose).toHaveBeenCalledWith('ended', undefined);
+    expect(requests).toHaveLength(1);
+  });
+});
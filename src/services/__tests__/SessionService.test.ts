@@ -0,0 +1,443 @@
+/// <reference types="jest" />
+import { jest } from '@jest/globals';
+import { SessionService } from '../SessionService.js';
+import type { TokenService } from '../TokenService.js';
+import type { EventService } from '../EventService.js';
+import type { Logger, SessionStore } from '../../types.js';
+import { InMemorySessionStore } from '../../stores/InMemorySessionStore.js';
+
+function createJwt(claims: Record<string, unknown>): string {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
+
+function createHttpError(statusCode: number): Error {
+  return Object.assign(new Error(`Error in test: ${statusCode}`), { statusCode });
+}
+
+describe('SessionService', () => {
+  let service: SessionService;
+  let mockLogger: Logger;
+  let mockTokenService: {
+    create: jest.Mock<any>;
+    continue: jest.Mock<any>;
+    canReauthenticate: boolean;
+  };
+  let mockEventService: { createEventSourceStream: jest.Mock<any>; updateHubToken: jest.Mock<any> };
+
+  beforeEach(() => {
+    mockLogger = {
+      error: jest.fn(),
+      warn: jest.fn(),
+      info: jest.fn(),
+      debug: jest.fn(),
+    };
+    mockTokenService = {
+      create: jest.fn(),
+      continue: jest.fn(),
+      canReauthenticate: false,
+    };
+    mockEventService = {
+      createEventSourceStream: jest.fn(() => ({ close: jest.fn() })),
+      updateHubToken: jest.fn(),
+    };
+
+    service = new SessionService(
+      mockTokenService as unknown as TokenService,
+      mockEventService as unknown as EventService,
+      mockLogger
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('start', () => {
+    it('should create a token for a new session', async () => {
+      mockTokenService.create.mockResolvedValueOnce({
+        accessToken: 'mock-token',
+        lastEventId: 'mock-event-id',
+      });
+
+      const session = await service.start({ platform: 'Web' });
+
+      expect(mockTokenService.create).toHaveBeenCalledWith({ platform: 'Web' });
+      expect(session.token).toBe('mock-token');
+      expect(session.lastEventId).toBe('mock-event-id');
+      session.close();
+    });
+
+    it('should adopt an existing access token', async () => {
+      const session = await service.start({ accessToken: 'existing-token', lastEventId: '42' });
+
+      expect(mockTokenService.create).not.toHaveBeenCalled();
+      expect(session.token).toBe('existing-token');
+      expect(session.lastEventId).toBe('42');
+      session.close();
+    });
+  });
+
+  describe('start with a session store', () => {
+    let store: SessionStore;
+
+    beforeEach(() => {
+      store = new InMemorySessionStore();
+      service = new SessionService(
+        mockTokenService as unknown as TokenService,
+        mockEventService as unknown as EventService,
+        mockLogger,
+        store
+      );
+    });
+
+    it('should persist new tokens under the issued device ID', async () => {
+      mockTokenService.create.mockResolvedValueOnce({
+        accessToken: 'mock-token',
+        lastEventId: 'mock-event-id',
+        deviceId: 'device-1',
+      });
+
+      const session = await service.start();
+
+      expect(session.deviceId).toBe('device-1');
+      await expect(store.get({ deviceId: 'device-1' })).resolves.toMatchObject({
+        accessToken: 'mock-token',
+        lastEventId: 'mock-event-id',
+      });
+
+      await session.bindConversation('conv-1');
+      await expect(
+        store.get({ deviceId: 'device-1', conversationId: 'conv-1' })
+      ).resolves.toMatchObject({ accessToken: 'mock-token' });
+      session.close();
+    });
+
+    it('should persist the last event received on the session streams', async () => {
+      mockTokenService.create.mockResolvedValueOnce({
+        accessToken: 'mock-token',
+        lastEventId: 'mock-event-id',
+        deviceId: 'device-1',
+      });
+      const session = await service.start();
+      session.stream({});
+      const [, options] = mockEventService.createEventSourceStream.mock.calls[0] as [
+        string,
+        { onEvent: (event: unknown) => void },
+      ];
+
+      options.onEvent({ id: 'event-7', data: '{}', event: 'CONVERSATION_MESSAGE' });
+      await session.bindConversation('conv-1');
+
+      expect(session.lastEventId).toBe('event-7');
+      await expect(
+        store.get({ deviceId: 'device-1', conversationId: 'conv-1' })
+      ).resolves.toMatchObject({ lastEventId: 'event-7' });
+      session.close();
+    });
+
+    it('should continue a stored token before creating a new one', async () => {
+      await store.set({
+        deviceId: 'device-1',
+        conversationId: 'conv-1',
+        accessToken: 'stored-token',
+        lastEventId: 'stored-event-id',
+        updatedAt: new Date().toISOString(),
+      });
+      mockTokenService.continue.mockResolvedValueOnce({
+        accessToken: 'continued-token',
+        lastEventId: 'continued-event-id',
+      });
+
+      const session = await service.start({ deviceId: 'device-1', conversationId: 'conv-1' });
+
+      expect(mockTokenService.continue).toHaveBeenCalledWith('stored-token');
+      expect(mockTokenService.create).not.toHaveBeenCalled();
+      expect(session.token).toBe('continued-token');
+      await expect(
+        store.get({ deviceId: 'device-1', conversationId: 'conv-1' })
+      ).resolves.toMatchObject({ accessToken: 'continued-token' });
+      session.close();
+    });
+
+    it('should create a new token when the stored one cannot be continued', async () => {
+      await store.set({
+        deviceId: 'device-1',
+        accessToken: 'stored-token',
+        lastEventId: 'stored-event-id',
+        updatedAt: new Date().toISOString(),
+      });
+      mockTokenService.continue.mockRejectedValueOnce(createHttpError(401));
+      mockTokenService.create.mockResolvedValueOnce({
+        accessToken: 'new-token',
+        lastEventId: 'new-event-id',
+      });
+
+      const session = await service.start({ deviceId: 'device-1' });
+
+      expect(mockTokenService.create).toHaveBeenCalledWith({ deviceId: 'device-1' });
+      expect(session.token).toBe('new-token');
+      expect(mockLogger.warn).toHaveBeenCalled();
+      session.close();
+    });
+  });
+
+  describe('resume', () => {
+    let store: SessionStore;
+
+    beforeEach(() => {
+      store = new InMemorySessionStore();
+      service = new SessionService(
+        mockTokenService as unknown as TokenService,
+        mockEventService as unknown as EventService,
+        mockLogger,
+        store
+      );
+    });
+
+    it('should continue the given token', async () => {
+      mockTokenService.continue.mockResolvedValueOnce({
+        accessToken: 'continued-token',
+        lastEventId: '1000',
+      });
+
+      const session = await service.resume({
+        conversationId: 'conv-1',
+        deviceId: 'device-1',
+        token: 'old-token',
+      });
+
+      expect(mockTokenService.continue).toHaveBeenCalledWith('old-token');
+      expect(session?.token).toBe('continued-token');
+      expect(session?.conversationId).toBe('conv-1');
+      await expect(
+        store.get({ deviceId: 'device-1', conversationId: 'conv-1' })
+      ).resolves.toMatchObject({ accessToken: 'continued-token' });
+      session?.close();
+    });
+
+    it('should continue the token stored for the device and conversation', async () => {
+      await store.set({
+        deviceId: 'device-1',
+        conversationId: 'conv-1',
+        accessToken: 'stored-token',
+        lastEventId: '1000',
+        updatedAt: new Date().toISOString(),
+      });
+      mockTokenService.continue.mockResolvedValueOnce({
+        accessToken: 'continued-token',
+        lastEventId: '',
+      });
+
+      const session = await service.resume({ conversationId: 'conv-1', deviceId: 'device-1' });
+
+      expect(mockTokenService.continue).toHaveBeenCalledWith('stored-token');
+      expect(session?.lastEventId).toBe('1000');
+      session?.close();
+    });
+
+    it('should report an expired session without creating a new token', async () => {
+      await store.set({
+        deviceId: 'device-1',
+        conversationId: 'conv-1',
+        accessToken: 'stored-token',
+        lastEventId: '1000',
+        updatedAt: new Date().toISOString(),
+      });
+      mockTokenService.continue.mockRejectedValueOnce(createHttpError(401));
+
+      await expect(
+        service.resume({ conversationId: 'conv-1', deviceId: 'device-1' })
+      ).resolves.toBeUndefined();
+      await expect(
+        service.resume({ conversationId: 'conv-2', deviceId: 'device-1' })
+      ).resolves.toBeUndefined();
+
+      expect(mockTokenService.create).not.toHaveBeenCalled();
+      expect(mockTokenService.continue).toHaveBeenCalledTimes(1);
+      await expect(
+        store.get({ deviceId: 'device-1', conversationId: 'conv-1' })
+      ).resolves.toBeUndefined();
+    });
+
+    it('should report an expired session instead of re-authenticating', async () => {
+      mockTokenService.canReauthenticate = true;
+      mockTokenService.continue.mockRejectedValueOnce(createHttpError(401));
+
+      await expect(
+        service.resume({ conversationId: 'conv-1', deviceId: 'device-1', token: 'old-token' })
+      ).resolves.toBeUndefined();
+
+      expect(mockTokenService.create).not.toHaveBeenCalled();
+    });
+
+    it('should rethrow errors other than an expired token', async () => {
+      mockTokenService.continue.mockRejectedValueOnce(createHttpError(500));
+
+      await expect(
+        service.resume({ conversationId: 'conv-1', token: 'old-token' })
+      ).rejects.toMatchObject({ statusCode: 500 });
+    });
+  });
+
+  describe('Session', () => {
+    it('should refresh the token ahead of its expiry', async () => {
+      jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+      const expiry = Date.now() / 1000 + 300;
+      mockTokenService.continue.mockResolvedValueOnce({
+        accessToken: 'refreshed-token',
+        lastEventId: 'refreshed-event-id',
+      });
+
+      const session = await service.start({
+        accessToken: createJwt({ exp: expiry }),
+        refreshLeeway: 60000,
+      });
+      expect(session.expiresAt).toEqual(new Date(expiry * 1000));
+
+      await jest.advanceTimersByTimeAsync(239000);
+      expect(mockTokenService.continue).not.toHaveBeenCalled();
+
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(mockTokenService.continue).toHaveBeenCalledTimes(1);
+      expect(session.token).toBe('refreshed-token');
+      session.close();
+    });
+
+    it('should refresh and replay a call rejected with a 401', async () => {
+      mockTokenService.continue.mockResolvedValueOnce({
+        accessToken: 'refreshed-token',
+        lastEventId: 'refreshed-event-id',
+      });
+      const session = await service.start({ accessToken: 'expired-token' });
+      const operation = jest
+        .fn<(token: string) => Promise<string>>()
+        .mockRejectedValueOnce(createHttpError(401))
+        .mockResolvedValueOnce('result');
+
+      await expect(session.run(operation)).resolves.toBe('result');
+
+      expect(operation).toHaveBeenNthCalledWith(1, 'expired-token');
+      expect(operation).toHaveBeenNthCalledWith(2, 'refreshed-token');
+      expect(mockTokenService.continue).toHaveBeenCalledWith('expired-token');
+      session.close();
+    });
+
+    it('should not retry calls failing for other reasons', async () => {
+      const session = await service.start({ accessToken: 'mock-token' });
+      const operation = jest
+        .fn<(token: string) => Promise<string>>()
+        .mockRejectedValue(createHttpError(500));
+
+      await expect(session.run(operation)).rejects.toThrow('Error in test: 500');
+
+      expect(operation).toHaveBeenCalledTimes(1);
+      expect(mockTokenService.continue).not.toHaveBeenCalled();
+      session.close();
+    });
+
+    it('should re-authenticate when the token can no longer be continued', async () => {
+      mockTokenService.canReauthenticate = true;
+      mockTokenService.continue.mockRejectedValueOnce(createHttpError(401));
+      mockTokenService.create
+        .mockResolvedValueOnce({
+          accessToken: 'first-token',
+          lastEventId: 'first-event-id',
+          deviceId: 'device-1',
+        })
+        .mockResolvedValueOnce({
+          accessToken: 'reauthenticated-token',
+          lastEventId: 'second-event-id',
+          deviceId: 'device-1',
+        });
+      const session = await service.start({ platform: 'Web' });
+
+      await expect(session.refresh()).resolves.toBe('reauthenticated-token');
+
+      expect(mockTokenService.create).toHaveBeenLastCalledWith({
+        platform: 'Web',
+        deviceId: 'device-1',
+      });
+      session.close();
+    });
+
+    it('should ask the identity provider again when the first identity token is rejected', async () => {
+      mockTokenService.canReauthenticate = true;
+      mockTokenService.continue.mockRejectedValueOnce(createHttpError(401));
+      mockTokenService.create.mockImplementation(async params =>
+        (params as { customerIdentityToken?: string }).customerIdentityToken === 'expired-identity'
+          ? Promise.reject(createHttpError(401))
+          : { accessToken: 'reauthenticated-token', lastEventId: '', deviceId: 'device-1' }
+      );
+      const session = await service.start({
+        accessToken: 'mock-token',
+        customerIdentityToken: 'expired-identity',
+        authorizationType: 'JWT',
+      });
+
+      await expect(session.refresh()).resolves.toBe('reauthenticated-token');
+
+      expect(mockTokenService.create).toHaveBeenCalledTimes(1);
+      expect(mockTokenService.create).toHaveBeenCalledWith({ authorizationType: 'JWT' });
+      session.close();
+    });
+
+    it('should fail the refresh when the session cannot re-authenticate', async () => {
+      mockTokenService.continue.mockRejectedValueOnce(createHttpError(401));
+      const session = await service.start({ accessToken: 'mock-token' });
+
+      await expect(session.refresh()).rejects.toThrow('Error in test: 401');
+      expect(mockTokenService.create).not.toHaveBeenCalled();
+      session.close();
+    });
+
+    it('should share a single refresh between concurrent callers', async () => {
+      mockTokenService.continue.mockResolvedValueOnce({
+        accessToken: 'refreshed-token',
+        lastEventId: 'refreshed-event-id',
+      });
+      const session = await service.start({ accessToken: 'mock-token' });
+
+      const tokens = await Promise.all([session.refresh(), session.refresh()]);
+
+      expect(tokens).toEqual(['refreshed-token', 'refreshed-token']);
+      expect(mockTokenService.continue).toHaveBeenCalledTimes(1);
+      session.close();
+    });
+
+    it('should re-establish open streams with the refreshed token', async () => {
+      const firstSource = { close: jest.fn() };
+      const secondSource = { close: jest.fn() };
+      mockEventService.createEventSourceStream
+        .mockReturnValueOnce(firstSource)
+        .mockReturnValueOnce(secondSource);
+      mockTokenService.continue.mockResolvedValueOnce({
+        accessToken: 'refreshed-token',
+        lastEventId: 'refreshed-event-id',
+      });
+      const session = await service.start({ accessToken: 'mock-token' });
+      const onEvent = jest.fn();
+
+      const stream = session.stream({ onEvent, lastEventId: '1' });
+      const [, firstOptions] = mockEventService.createEventSourceStream.mock.calls[0] as [
+        string,
+        { onEvent: (event: unknown) => void },
+      ];
+      firstOptions.onEvent({ id: '7', data: '{}', event: 'CONVERSATION_MESSAGE' });
+
+      await session.refresh();
+
+      expect(firstSource.close).toHaveBeenCalled();
+      expect(mockEventService.createEventSourceStream).toHaveBeenLastCalledWith(
+        'refreshed-token',
+        expect.objectContaining({ lastEventId: '7' })
+      );
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(stream.lastEventId).toBe('7');
+      expect(mockEventService.updateHubToken).toHaveBeenCalledWith('mock-token', 'refreshed-token');
+
+      session.close();
+      expect(secondSource.close).toHaveBeenCalled();
+    });
+  });
+});
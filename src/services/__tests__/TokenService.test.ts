@@ -131,6 +131,69 @@ describe('TokenService', () => {
       );
     });
 
+    it('should normalize the token context and claims', async () => {
+      const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+      const accessToken = `${encode({ alg: 'ES256' })}.${encode({
+        sub: 'v2/iamessage/UNAUTH/NA/uid:mock-uid',
+        iss: 'mock-issuer',
+        iat: 1704067200,
+        exp: 1704153600,
+      })}.signature`;
+      const tokenData = {
+        accessToken,
+        lastEventId: 'mock-event-id',
+        context: {
+          deviceId: 'mock-device-id',
+          configuration: {
+            embeddedServiceConfig: {
+              name: 'test-dev',
+              deploymentType: 'Web',
+              embeddedServiceMessagingChannel: {
+                channelAddressIdentifier: 'mock-channel',
+                authMode: 'UnAuth',
+              },
+            },
+          },
+        },
+      };
+      const mockResponse: MockResponse<typeof tokenData> = {
+        ok: true,
+        json: () => Promise.resolve(tokenData),
+        text: () => Promise.resolve(JSON.stringify(tokenData)),
+        headers: new Headers({ 'Content-Type': 'application/json' }),
+        statusText: 'OK',
+        type: 'default',
+        url: 'https://test.com/iamessage/api/v2/authorization/unauthenticated/access-token',
+        redirected: false,
+        clone: () => mockResponse as unknown as Response,
+        body: null,
+        bodyUsed: false,
+        arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+        blob: () => Promise.resolve(new Blob()),
+        formData: () => Promise.resolve(new FormData()),
+      };
+
+      mockFetch.mockResolvedValueOnce(mockResponse);
+
+      const result = await service.create();
+
+      expect(result).toEqual({
+        accessToken,
+        lastEventId: 'mock-event-id',
+        deviceId: 'mock-device-id',
+        deploymentName: 'test-dev',
+        deploymentType: 'Web',
+        channelAddressIdentifier: 'mock-channel',
+        authMode: 'UnAuth',
+        claims: {
+          subject: 'v2/iamessage/UNAUTH/NA/uid:mock-uid',
+          issuer: 'mock-issuer',
+          issuedAt: new Date('2024-01-01T00:00:00Z'),
+          expiresAt: new Date('2024-01-02T00:00:00Z'),
+        },
+      });
+    });
+
     it('should throw error when token creation fails', async () => {
       const mockResponse: MockResponse<{ message: string }> = {
         ok: false,
@@ -155,6 +218,98 @@ describe('TokenService', () => {
     });
   });
 
+  describe('create with an identity provider', () => {
+    const tokenData = { accessToken: 'mock-token', lastEventId: 'mock-event-id' };
+    const mockResponse: MockResponse<typeof tokenData> = {
+      ok: true,
+      json: () => Promise.resolve(tokenData),
+      text: () => Promise.resolve(JSON.stringify(tokenData)),
+      headers: new Headers({ 'Content-Type': 'application/json' }),
+      statusText: 'OK',
+      type: 'default',
+      url: 'https://test.com/iamessage/api/v2/authorization/authenticated/access-token',
+      redirected: false,
+      clone: () => mockResponse as unknown as Response,
+      body: null,
+      bodyUsed: false,
+      arrayBuffer: () => Promise.resolve(new ArrayBuffer(0)),
+      blob: () => Promise.resolve(new Blob()),
+      formData: () => Promise.resolve(new FormData()),
+    };
+
+    it('should create an authenticated token with a fresh identity token', async () => {
+      const identityProvider = jest.fn(() => Promise.resolve('identity-jwt'));
+      service = new TokenService(
+        'https://test.com',
+        'test-org',
+        'test-dev',
+        mockLogger,
+        identityProvider
+      );
+      mockFetch.mockResolvedValueOnce(mockResponse);
+
+      await service.create();
+
+      expect(identityProvider).toHaveBeenCalledTimes(1);
+      expect(service.canReauthenticate).toBe(true);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://test.com/iamessage/api/v2/authorization/authenticated/access-token',
+        expect.objectContaining({
+          body: expect.stringContaining(
+            '"authorizationType":"JWT","customerIdentityToken":"identity-jwt"'
+          ),
+        })
+      );
+    });
+
+    it('should not call the provider when an identity token is passed', async () => {
+      const identityProvider = jest.fn(() => Promise.resolve('identity-jwt'));
+      service = new TokenService(
+        'https://test.com',
+        'test-org',
+        'test-dev',
+        mockLogger,
+        identityProvider
+      );
+      mockFetch.mockResolvedValueOnce(mockResponse);
+
+      await service.create({ authorizationType: 'JWT', customerIdentityToken: 'explicit-jwt' });
+
+      expect(identityProvider).not.toHaveBeenCalled();
+    });
+
+    it('should throw an identity provider error when the provider fails', async () => {
+      const identityProvider = jest.fn(() => Promise.reject(new Error('IdP unavailable')));
+      service = new TokenService(
+        'https://test.com',
+        'test-org',
+        'test-dev',
+        mockLogger,
+        identityProvider
+      );
+
+      await expect(service.create()).rejects.toMatchObject({
+        type: 'identity_provider_error',
+        operation: 'tokens.create_authenticated_token',
+        message: 'Identity provider failed in tokens.create_authenticated_token: IdP unavailable',
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should throw an identity provider error when no token is returned', async () => {
+      const identityProvider = jest.fn(() => Promise.resolve(''));
+      service = new TokenService(
+        'https://test.com',
+        'test-org',
+        'test-dev',
+        mockLogger,
+        identityProvider
+      );
+
+      await expect(service.create()).rejects.toMatchObject({ type: 'identity_provider_error' });
+    });
+  });
+
   describe('continue', () => {
     it('should refresh token successfully', async () => {
       const mockResponse: MockResponse<{ accessToken: string; lastEventId: string }> = {
@@ -0,0 +1,90 @@
+import { readFile, rename, writeFile } from 'fs/promises';
+import type { SessionRecord, SessionStore, SessionStoreKey } from '../types';
+import { formatSessionStoreKey } from './InMemorySessionStore';
+
+/**
+ * Session store that persists records to a JSON file so they survive process restarts.
+ * Writes are serialized and replace the file atomically.
+ */
+export class FileSessionStore implements SessionStore {
+  private records?: Promise<Record<string, SessionRecord>>;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  /**
+   * Retrieves the record stored under a key.
+   * @param {SessionStoreKey} key - Device and optional conversation the record belongs to
+   * @returns {Promise<SessionRecord | undefined>} Promise containing the record, if any
+   */
+  async get(key: SessionStoreKey): Promise<SessionRecord | undefined> {
+    const records = await this.load();
+    const record = records[formatSessionStoreKey(key)];
+    return record ? { ...record } : undefined;
+  }
+
+  /**
+   * Stores a record under its key and writes the file.
+   * @param {SessionRecord} record - The record to store
+   * @returns {Promise<void>} Promise resolving once the file is written
+   */
+  async set(record: SessionRecord): Promise<void> {
+    return this.update(records => {
+      records[formatSessionStoreKey(record)] = { ...record };
+    });
+  }
+
+  /**
+   * Removes the record stored under a key and writes the file.
+   * @param {SessionStoreKey} key - Device and optional conversation the record belongs to
+   * @returns {Promise<void>} Promise resolving once the file is written
+   */
+  async delete(key: SessionStoreKey): Promise<void> {
+    return this.update(records => {
+      delete records[formatSessionStoreKey(key)];
+    });
+  }
+
+  /**
+   * Reads the records from disk once, treating a missing file as an empty store.
+   * A failed read is not kept, so the next call reads the file again.
+   * @returns {Promise<Record<string, SessionRecord>>} Promise containing all records
+   */
+  private load(): Promise<Record<string, SessionRecord>> {
+    if (!this.records) {
+      const records = readFile(this.filePath, 'utf8').then(
+        contents => JSON.parse(contents) as Record<string, SessionRecord>,
+        (error: Error & { code?: string }) => {
+          if (error.code === 'ENOENT') {
+            return {};
+          }
+          throw error;
+        }
+      );
+      records.catch(() => {
+        if (this.records === records) {
+          this.records = undefined;
+        }
+      });
+      this.records = records;
+    }
+    return this.records;
+  }
+
+  /**
+   * Applies a change to the records and queues a write of the whole file.
+   * @param {(records: Record<string, SessionRecord>) => void} change - Mutation to apply
+   * @returns {Promise<void>} Promise resolving once the file is written
+   */
+  private update(change: (records: Record<string, SessionRecord>) => void): Promise<void> {
+    const write = this.pendingWrite.then(async () => {
+      const records = await this.load();
+      change(records);
+      const tempPath = `${this.filePath}.tmp`;
+      await writeFile(tempPath, JSON.stringify(records, null, 2), 'utf8');
+      await rename(tempPath, this.filePath);
+    });
+    this.pendingWrite = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,45 @@
+import type { SessionRecord, SessionStore, SessionStoreKey } from '../types';
+
+/**
+ * Formats a session store key into a single string.
+ * @param {SessionStoreKey} key - Device and optional conversation the record belongs to
+ * @returns {string} The formatted key
+ */
+export function formatSessionStoreKey(key: SessionStoreKey): string {
+  return key.conversationId ? `${key.deviceId}:${key.conversationId}` : key.deviceId;
+}
+
+/**
+ * Session store that keeps records in memory for the lifetime of the process.
+ */
+export class InMemorySessionStore implements SessionStore {
+  private records = new Map<string, SessionRecord>();
+
+  /**
+   * Retrieves the record stored under a key.
+   * @param {SessionStoreKey} key - Device and optional conversation the record belongs to
+   * @returns {Promise<SessionRecord | undefined>} Promise containing the record, if any
+   */
+  async get(key: SessionStoreKey): Promise<SessionRecord | undefined> {
+    const record = this.records.get(formatSessionStoreKey(key));
+    return record ? { ...record } : undefined;
+  }
+
+  /**
+   * Stores a record under its key.
+   * @param {SessionRecord} record - The record to store
+   * @returns {Promise<void>} Promise resolving once the record is stored
+   */
+  async set(record: SessionRecord): Promise<void> {
+    this.records.set(formatSessionStoreKey(record), { ...record });
+  }
+
+  /**
+   * Removes the record stored under a key.
+   * @param {SessionStoreKey} key - Device and optional conversation the record belongs to
+   * @returns {Promise<void>} Promise resolving once the record is removed
+   */
+  async delete(key: SessionStoreKey): Promise<void> {
+    this.records.delete(formatSessionStoreKey(key));
+  }
+}
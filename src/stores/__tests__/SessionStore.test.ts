@@ -0,0 +1,86 @@
+/// <reference types="jest" />
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InMemorySessionStore } from '../InMemorySessionStore.js';
+import { FileSessionStore } from '../FileSessionStore.js';
+import type { SessionRecord, SessionStore } from '../../types.js';
+
+const record: SessionRecord = {
+  deviceId: 'device-1',
+  conversationId: 'conv-1',
+  accessToken: 'mock-token',
+  lastEventId: 'mock-event-id',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+};
+
+describe('SessionStore', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'miaw-session-store-'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  describe.each([
+    ['InMemorySessionStore', () => new InMemorySessionStore()],
+    ['FileSessionStore', () => new FileSessionStore(join(directory, `${Date.now()}.json`))],
+  ])('%s', (_name, createStore: () => SessionStore) => {
+    let store: SessionStore;
+
+    beforeEach(() => {
+      store = createStore();
+    });
+
+    it('should return undefined for unknown keys', async () => {
+      await expect(store.get({ deviceId: 'unknown' })).resolves.toBeUndefined();
+    });
+
+    it('should store records by device and conversation', async () => {
+      await store.set(record);
+      await store.set({ ...record, conversationId: undefined, accessToken: 'device-token' });
+
+      await expect(store.get({ deviceId: 'device-1', conversationId: 'conv-1' })).resolves.toEqual(
+        record
+      );
+      await expect(store.get({ deviceId: 'device-1' })).resolves.toMatchObject({
+        accessToken: 'device-token',
+      });
+    });
+
+    it('should delete records', async () => {
+      await store.set(record);
+      await store.delete({ deviceId: 'device-1', conversationId: 'conv-1' });
+
+      await expect(
+        store.get({ deviceId: 'device-1', conversationId: 'conv-1' })
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('FileSessionStore', () => {
+    it('should persist records across instances', async () => {
+      const filePath = join(directory, 'persisted.json');
+      await new FileSessionStore(filePath).set(record);
+
+      const reopened = new FileSessionStore(filePath);
+
+      await expect(reopened.get(record)).resolves.toEqual(record);
+      expect(JSON.parse(await readFile(filePath, 'utf8'))).toEqual({ 'device-1:conv-1': record });
+    });
+
+    it('should read the file again after a failed read', async () => {
+      const filePath = join(directory, 'corrupt.json');
+      await writeFile(filePath, '{ not json', 'utf8');
+      const store = new FileSessionStore(filePath);
+
+      await expect(store.get(record)).rejects.toThrow(SyntaxError);
+
+      await writeFile(filePath, JSON.stringify({ 'device-1:conv-1': record }), 'utf8');
+      await expect(store.get(record)).resolves.toEqual(record);
+    });
+  });
+});
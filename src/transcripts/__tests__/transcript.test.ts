@@ -0,0 +1,138 @@
+/// <reference types="jest" />
+import { renderTranscript } from '../transcript.js';
+import type { ConversationEntry } from '../../types.js';
+
+const base = {
+  clientTimestamp: '2024-01-01T14:00:00.000Z',
+  timestamp: '2024-01-01T14:00:00.000Z',
+};
+
+const entries: ConversationEntry[] = [
+  {
+    ...base,
+    id: 'entry-1',
+    type: 'ParticipantChanged',
+    sender: { id: 'system', type: 'System' },
+    changes: [
+      { operation: 'add', participant: { id: 'agent-1', type: 'Agent' }, displayName: 'Ada' },
+    ],
+    payload: {},
+  },
+  {
+    ...base,
+    id: 'entry-2',
+    type: 'Message',
+    serverTimestamp: '2024-01-01T14:00:05.000Z',
+    sender: { id: 'agent-1', type: 'Agent' },
+    senderDisplayName: 'Ada',
+    messageType: 'StaticContentMessage',
+    format: 'Text',
+    text: 'Hi <b>there</b>, "welcome"',
+    payload: {},
+  },
+  {
+    ...base,
+    id: 'entry-3',
+    type: 'ReadAcknowledgement',
+    sender: { id: 'user-1', type: 'EndUser' },
+    payload: {},
+  },
+  {
+    ...base,
+    id: 'entry-4',
+    type: 'Message',
+    sender: { id: 'user-1', type: 'EndUser' },
+    messageType: 'StaticContentMessage',
+    format: 'Attachments',
+    text: '=SUM(A1)',
+    attachments: [
+      { id: 'file-1', name: 'invoice.pdf', mimeType: 'application/pdf', url: 'https://x/1' },
+    ],
+    payload: {},
+  },
+];
+
+async function render(
+  format: 'json' | 'text' | 'html' | 'csv',
+  timeZone = 'America/New_York'
+): Promise<string> {
+  let output = '';
+  for await (const chunk of renderTranscript(entries, {
+    format,
+    timeZone,
+    conversationId: 'conv-1',
+  })) {
+    output += chunk;
+  }
+  return output;
+}
+
+describe('renderTranscript', () => {
+  it('should render normalized JSON with events and local times', async () => {
+    const transcript = JSON.parse(await render('json'));
+
+    expect(transcript).toMatchObject({
+      title: 'Conversation transcript',
+      conversationId: 'conv-1',
+      timeZone: 'America/New_York',
+    });
+    expect(transcript.entries).toHaveLength(3);
+    expect(transcript.entries[0]).toMatchObject({
+      kind: 'event',
+      text: 'Ada joined the conversation',
+      localTime: '2024-01-01 09:00:00',
+    });
+    expect(transcript.entries[1]).toMatchObject({
+      kind: 'message',
+      senderName: 'Ada',
+      timestamp: '2024-01-01T14:00:05.000Z',
+      localTime: '2024-01-01 09:00:05',
+    });
+  });
+
+  it('should render readable plain text', async () => {
+    expect(await render('text', 'UTC')).toBe(
+      'Conversation transcript\n' +
+        'Conversation: conv-1\n' +
+        'Time zone: UTC\n\n' +
+        '[2024-01-01 14:00:00] * Ada joined the conversation\n' +
+        '[2024-01-01 14:00:05] Ada: Hi <b>there</b>, "welcome"\n' +
+        '[2024-01-01 14:00:00] EndUser: =SUM(A1)\n' +
+        '    [Attachment: invoice.pdf]\n'
+    );
+  });
+
+  it('should render self-contained, escaped HTML', async () => {
+    const html = await render('html');
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('Hi &lt;b&gt;there&lt;/b&gt;, &quot;welcome&quot;');
+    expect(html).not.toContain('<b>there</b>');
+    expect(html).toContain('<span class="attachment">[invoice.pdf]</span>');
+    expect(html.trim().endsWith('</html>')).toBe(true);
+  });
+
+  it('should render quoted CSV that spreadsheets will not evaluate', async () => {
+    const rows = (await render('csv', 'UTC')).trim().split('\r\n');
+
+    expect(rows[0]).toBe('timestamp,local_time,kind,sender,role,text,attachments');
+    expect(rows[2]).toContain('"Hi <b>there</b>, ""welcome"""');
+    expect(rows[3]).toContain(`"'=SUM(A1)","invoice.pdf"`);
+  });
+
+  it('should render entries as they are read from an async source', async () => {
+    async function* source(): AsyncGenerator<ConversationEntry> {
+      yield entries[1];
+    }
+
+    const chunks: string[] = [];
+    for await (const chunk of renderTranscript(source(), { format: 'text' })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual([
+      'Conversation transcript\nTime zone: UTC\n\n',
+      '[2024-01-01 14:00:05] Ada: Hi <b>there</b>, "welcome"\n',
+    ]);
+  });
+});
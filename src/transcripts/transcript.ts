@@ -0,0 +1,256 @@
+import type {
+  ConversationEntry,
+  TranscriptEntry,
+  TranscriptFormat,
+  TranscriptOptions
+} from '../types';
+
+type EntrySource = AsyncIterable<ConversationEntry> | Iterable<ConversationEntry>;
+
+const DEFAULT_TITLE = 'Conversation transcript';
+const CSV_COLUMNS = ['timestamp', 'local_time', 'kind', 'sender', 'role', 'text', 'attachments'];
+
+/**
+ * Renders conversation entries as a transcript.
+ * Entries are read and rendered one at a time, so transcripts of very large conversations
+ * can be written to a file or response without holding them in memory.
+ * @param {EntrySource} entries - Entries of the conversation, oldest first
+ * @param {TranscriptOptions} options - Output format, time zone and header details
+ * @returns {AsyncGenerator<string>} Chunks of the rendered transcript
+ */
+export async function* renderTranscript(
+  entries: EntrySource,
+  options: TranscriptOptions
+): AsyncGenerator<string> {
+  const timeZone = options.timeZone || 'UTC';
+  const formatTime = createTimeFormatter(timeZone);
+  const renderer = RENDERERS[options.format];
+  if (!renderer) {
+    throw new Error(`Unsupported transcript format: ${options.format}`);
+  }
+
+  const header = {
+    title: options.title || DEFAULT_TITLE,
+    conversationId: options.conversationId,
+    timeZone,
+  };
+
+  yield renderer.start(header);
+  let index = 0;
+  for await (const entry of entries) {
+    const transcriptEntry = toTranscriptEntry(entry, formatTime);
+    if (transcriptEntry) {
+      yield renderer.entry(transcriptEntry, index++);
+    }
+  }
+  const footer = renderer.end(header);
+  if (footer) {
+    yield footer;
+  }
+}
+
+/**
+ * Normalizes a conversation entry for a transcript.
+ * Acknowledgements, typing indicators and unparsed entries are left out.
+ * @param {ConversationEntry} entry - Conversation entry
+ * @param {(date: Date) => string} [formatTime] - Formatter for the local time (defaults to UTC)
+ * @returns {TranscriptEntry | undefined} The transcript entry, or undefined if it is left out
+ */
+export function toTranscriptEntry(
+  entry: ConversationEntry,
+  formatTime: (date: Date) => string = createTimeFormatter('UTC')
+): TranscriptEntry | undefined {
+  const timestamp = entry.serverTimestamp || entry.clientTimestamp || entry.timestamp;
+  const base = {
+    id: entry.id,
+    timestamp,
+    localTime: timestamp ? formatTime(new Date(timestamp)) : '',
+    senderName: entry.senderDisplayName || entry.sender.type || 'Unknown',
+    senderRole: entry.sender.type,
+    attachments: [],
+  };
+
+  switch (entry.type) {
+    case 'Message':
+      return {
+        ...base,
+        kind: 'message',
+        attachments: entry.attachments || [],
+        text:
+          entry.text ??
+          entry.selectedOptions?.map(option => option.title).join(', ') ??
+          entry.link?.title ??
+          entry.link?.url ??
+          (entry.attachments ? '' : `[${entry.format}]`),
+      };
+    case 'ParticipantChanged': {
+      const change = entry.changes[0];
+      if (!change) {
+        return undefined;
+      }
+      const name = change.displayName || change.participant.type;
+      return {
+        ...base,
+        kind: 'event',
+        senderName: name,
+        senderRole: change.participant.type,
+        text: entry.changes
+          .map(
+            ({ displayName, participant, operation }) =>
+              `${displayName || participant.type} ${operation === 'add' ? 'joined' : 'left'} the conversation`
+          )
+          .join('; '),
+      };
+    }
+    case 'RoutingResult':
+      return {
+        ...base,
+        kind: 'event',
+        senderRole: base.senderRole || 'System',
+        text:
+          entry.failureType && entry.failureType !== 'None'
+            ? `Routing failed: ${entry.failureType}`
+            : `Conversation routed${entry.routingType === 'Transfer' ? ' (transfer)' : ''}`,
+      };
+    case 'CloseConversation':
+      return {
+        ...base,
+        kind: 'event',
+        senderRole: base.senderRole || 'System',
+        text: 'Conversation closed',
+      };
+    default:
+      return undefined;
+  }
+}
+
+interface TranscriptHeader {
+  /** Title of the transcript */
+  title: string;
+  /** ID of the conversation, if known */
+  conversationId?: string;
+  /** Time zone timestamps are shown in */
+  timeZone: string;
+}
+
+interface TranscriptRenderer {
+  /** Renders everything before the first entry */
+  start(header: TranscriptHeader): string;
+  /** Renders one entry */
+  entry(entry: TranscriptEntry, index: number): string;
+  /** Renders everything after the last entry */
+  end(header: TranscriptHeader): string;
+}
+
+const RENDERERS: Record<TranscriptFormat, TranscriptRenderer> = {
+  json: {
+    start: header =>
+      `{"title":${JSON.stringify(header.title)},` +
+      (header.conversationId ? `"conversationId":${JSON.stringify(header.conversationId)},` : '') +
+      `"timeZone":${JSON.stringify(header.timeZone)},"entries":[`,
+    entry: (entry, index) => `${index > 0 ? ',' : ''}\n  ${JSON.stringify(entry)}`,
+    end: () => '\n]}\n',
+  },
+  text: {
+    start: header =>
+      `${header.title}\n` +
+      (header.conversationId ? `Conversation: ${header.conversationId}\n` : '') +
+      `Time zone: ${header.timeZone}\n\n`,
+    entry: entry =>
+      `[${entry.localTime}] ` +
+      (entry.kind === 'event' ? `* ${entry.text}` : `${entry.senderName}: ${entry.text}`) +
+      entry.attachments.map(attachment => `\n    [Attachment: ${attachment.name}]`).join('') +
+      '\n',
+    end: () => '',
+  },
+  html: {
+    start: header =>
+      '<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n' +
+      `<title>${escapeHtml(header.title)}</title>\n<style>\n` +
+      'body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;color:#1b1b1b}\n' +
+      'li{list-style:none;margin:.5rem 0}time{color:#666;font-size:.85em;margin-right:.5rem}\n' +
+      '.event{color:#666;font-style:italic}.sender{font-weight:600;margin-right:.25rem}\n' +
+      '</style>\n</head>\n<body>\n' +
+      `<h1>${escapeHtml(header.title)}</h1>\n` +
+      (header.conversationId ? `<p>Conversation: ${escapeHtml(header.conversationId)}</p>\n` : '') +
+      `<p>Time zone: ${escapeHtml(header.timeZone)}</p>\n<ol>\n`,
+    entry: entry =>
+      `<li class="${entry.kind}"><time datetime="${escapeHtml(entry.timestamp)}">` +
+      `${escapeHtml(entry.localTime)}</time>` +
+      (entry.kind === 'message'
+        ? `<span class="sender">${escapeHtml(entry.senderName)}:</span>`
+        : '') +
+      `<span class="text">${escapeHtml(entry.text)}</span>` +
+      entry.attachments
+        .map(attachment => ` <span class="attachment">[${escapeHtml(attachment.name)}]</span>`)
+        .join('') +
+      '</li>\n',
+    end: () => '</ol>\n</body>\n</html>\n',
+  },
+  csv: {
+    start: () => `${CSV_COLUMNS.join(',')}\r\n`,
+    entry: entry =>
+      [
+        entry.timestamp,
+        entry.localTime,
+        entry.kind,
+        entry.senderName,
+        entry.senderRole,
+        entry.text,
+        entry.attachments.map(attachment => attachment.name).join('; '),
+      ]
+        .map(escapeCsv)
+        .join(',') + '\r\n',
+    end: () => '',
+  },
+};
+
+/**
+ * Creates a formatter rendering dates as 'YYYY-MM-DD HH:mm:ss' in a time zone.
+ * @param {string} timeZone - IANA time zone
+ * @returns {(date: Date) => string} The formatter
+ * @throws {RangeError} If the time zone is not supported
+ */
+function createTimeFormatter(timeZone: string): (date: Date) => string {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  });
+
+  return date => {
+    const parts = Object.fromEntries(
+      formatter.formatToParts(date).map(part => [part.type, part.value])
+    );
+    return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second}`;
+  };
+}
+
+/**
+ * Escapes text for HTML element content and attribute values.
+ * @param {string} value - Text to escape
+ * @returns {string} The escaped text
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Quotes a CSV field, neutralizing values that spreadsheets would run as formulas.
+ * @param {string} value - Field value
+ * @returns {string} The quoted field
+ */
+function escapeCsv(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+}
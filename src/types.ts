@@ -1,4 +1,6 @@
 import { EventSourceMessage } from 'eventsource-client';
+import type { SSEEvent, SSEEventType } from './types/api';
+import type { EventStreamError } from './utils/error';
 
 /**
  * Logger interface for handling different types of log messages
@@ -26,24 +28,137 @@ export interface MessagingInAppWebConfig {
   developerName: string;
   /** Optional logger instance for debugging and monitoring */
   logger?: Logger;
+  /** Optional store used to persist and rehydrate session tokens */
+  sessionStore?: SessionStore;
+  /** Optional provider of customer identity tokens for authenticated sessions */
+  identityProvider?: CustomerIdentityProvider;
+  /** Time in ms the deployment configuration and business hours are cached for (defaults to 300000) */
+  configurationCacheTtl?: number;
+  /** Reject conversation creation outside business hours (defaults to false) */
+  enforceBusinessHours?: boolean;
+  /** Optional size and MIME type limits checked before files are uploaded */
+  uploadLimits?: UploadLimits;
 }
 
 /**
  * Event Service Types
  */
+export interface ConversationStreamEvent<E extends ConversationEntry = ConversationEntry> {
+  /** ID of the event, used to resume the stream after it */
+  id?: string;
+  /** Type of the event */
+  type: SSEEventType;
+  /** ID of the conversation the event belongs to */
+  conversationId: string;
+  /** The parsed conversation entry */
+  entry: E;
+  /** Event data as received, with the entry payload still a JSON string */
+  data: SSEEvent;
+}
+
+/** State of an event stream connection */
+export type EventStreamState = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+/**
+ * Why an event stream was closed: closed by the caller, ended by the server, failed with an
+ * error that is not retried, or reconnecting gave up after the maximum number of attempts
+ */
+export type EventStreamCloseReason = 'closed' | 'ended' | 'error' | 'gave_up';
+
+export interface ReconnectPolicy {
+  /** Maximum number of consecutive reconnect attempts before giving up (defaults to 10) */
+  maxAttempts?: number;
+  /** Delay in ms before the first reconnect attempt (defaults to 1000) */
+  initialDelay?: number;
+  /** Maximum delay in ms between reconnect attempts (defaults to 30000) */
+  maxDelay?: number;
+  /** Factor the delay grows by after each attempt (defaults to 2) */
+  multiplier?: number;
+  /** Fraction of each delay that is randomized, between 0 and 1 (defaults to 0.5) */
+  jitter?: number;
+}
+
+export interface ReconnectAttempt {
+  /** Number of the reconnect attempt, starting at 1 */
+  attempt: number;
+  /** Delay in ms before the attempt is made */
+  delay: number;
+}
+
 export interface SSEOptions {
   /** Optional last event ID to resume connection from a specific point */
   lastEventId?: string;
-  /** Callback function for handling incoming events */
-  onEvent: (event: EventSourceMessage) => void;
+  /**
+   * Optional policy for reconnecting when the connection drops, or true for the default policy.
+   * Reconnects resume after the last event received. Without a policy the stream is closed when
+   * the connection drops.
+   */
+  reconnect?: boolean | ReconnectPolicy;
+  /** Optional callback for when a reconnect attempt is scheduled */
+  onReconnecting?: (attempt: ReconnectAttempt) => void;
+  /** Optional callback for when the connection is re-established, with the attempts it took */
+  onReconnected?: (attempts: number) => void;
+  /**
+   * Whether to backfill entries missed while the stream was down (defaults to true).
+   * After a reconnect, or when opened with entry timestamps, the entries of each conversation
+   * since the last one seen are loaded and passed to the handlers in order before any newer
+   * event, and entries already seen are dropped.
+   */
+  backfill?: boolean;
+  /**
+   * Optional epoch ms timestamps of the last entry received for each conversation, as returned
+   * by the stream's `lastEntryTimestamps`. The entries after them are backfilled once the stream
+   * opens. Conversations are also backfilled once an event for them is received on the stream.
+   */
+  lastEntryTimestamps?: Record<string, number>;
+  /** Optional callback receiving every event as received, before it is parsed */
+  onEvent?: (event: EventSourceMessage) => void;
+  /** Optional callback for new messages */
+  onMessage?: (event: ConversationStreamEvent<MessageEntry>) => void;
+  /** Optional callback for typing indicators starting and stopping */
+  onTyping?: (event: ConversationStreamEvent<TypingIndicatorEntry>) => void;
+  /** Optional callback for routing results */
+  onRoutingResult?: (
+    event: ConversationStreamEvent<RoutingResultEntry | RoutingWorkResultEntry>
+  ) => void;
+  /** Optional callback for participants joining or leaving */
+  onParticipantChanged?: (event: ConversationStreamEvent<ParticipantChangedEntry>) => void;
+  /** Optional callback for delivery and read receipts */
+  onReceipt?: (event: ConversationStreamEvent<AcknowledgementEntry>) => void;
+  /** Optional callback for the conversation being closed */
+  onCloseConversation?: (event: ConversationStreamEvent<CloseConversationEntry>) => void;
+  /** Optional callback for events that could not be parsed or are not recognized */
+  onUnknown?: (event: EventSourceMessage, error: string) => void;
   /** Optional callback for when connection is opened */
   onOpen?: () => void;
-  /** Optional callback for handling connection errors */
-  onError?: (error: Event) => void;
-  /** Optional callback for when connection is closed */
-  onClose?: () => void;
+  /**
+   * Optional callback for stream errors. Events that cannot be parsed are reported as parse
+   * errors and the stream stays open.
+   */
+  onError?: (error: EventStreamError) => void;
+  /** Optional callback for when the stream is closed, called once with the reason */
+  onClose?: (reason: EventStreamCloseReason, error?: EventStreamError) => void;
 }
 
+/** Handlers for the events of one conversation, subscribed through an event hub */
+export type ConversationEventHandlers = Pick<
+  SSEOptions,
+  | 'onEvent'
+  | 'onMessage'
+  | 'onTyping'
+  | 'onRoutingResult'
+  | 'onParticipantChanged'
+  | 'onReceipt'
+  | 'onCloseConversation'
+  | 'onClose'
+>;
+
+/** Options for the shared connection of an event hub, whose events go to its subscriptions */
+export type EventHubOptions = Omit<
+  SSEOptions,
+  Exclude<keyof ConversationEventHandlers, 'onClose'> | 'lastEntryTimestamps'
+>;
+
 /**
  * Token Service Types
  */
@@ -67,6 +182,19 @@ export interface TokenCreateParams {
   customerIdentityToken?: string;
 }
 
+export interface CustomerIdentity {
+  /** Customer identity JWT */
+  customerIdentityToken: string;
+  /** Type of authorization being used (defaults to 'JWT') */
+  authorizationType?: string;
+}
+
+/**
+ * Callback returning a fresh customer identity token, or the token together with its authorization type.
+ * Called for every authenticated token creation, including re-authentication after a 401.
+ */
+export type CustomerIdentityProvider = () => Promise<string | CustomerIdentity>;
+
 export interface TokenResponse {
   /** The access token for authentication */
   accessToken: string;
@@ -74,6 +202,218 @@ export interface TokenResponse {
   lastEventId: string;
 }
 
+export interface TokenClaims {
+  /** Subject the token was issued for */
+  subject?: string;
+  /** Issuer of the token */
+  issuer?: string;
+  /** Audience of the token */
+  audience?: string | string[];
+  /** When the token was issued */
+  issuedAt?: Date;
+  /** When the token expires */
+  expiresAt?: Date;
+}
+
+export interface TokenResult extends TokenResponse {
+  /** Unique identifier for the device the token was issued for */
+  deviceId?: string;
+  /** Name of the embedded service deployment */
+  deploymentName?: string;
+  /** Type of the embedded service deployment */
+  deploymentType?: string;
+  /** Identifier of the messaging channel address */
+  channelAddressIdentifier?: string;
+  /** Authentication mode of the messaging channel */
+  authMode?: string;
+  /** Claims decoded from the access token, if it is a JWT */
+  claims?: TokenClaims;
+}
+
+/**
+ * Session Service Types
+ */
+export interface SessionStartParams extends TokenCreateParams {
+  /** Conversation the session is used for, used as part of the session store key */
+  conversationId?: string;
+  /** Existing access token to adopt instead of creating a new one */
+  accessToken?: string;
+  /** Last event ID processed with the existing access token */
+  lastEventId?: string;
+  /** Time in ms before the token expires at which the session refreshes it (defaults to 60000) */
+  refreshLeeway?: number;
+}
+
+export interface ResumeParams {
+  /** ID of the conversation to resume */
+  conversationId: string;
+  /** Access token to continue; read from the session store for the device when omitted */
+  token?: string;
+  /** Device the token was issued for, used as part of the session store key */
+  deviceId?: string;
+  /** ID of the last event the client processed; the event stream resumes after it */
+  lastEventId?: string;
+  /**
+   * Epoch ms timestamp of the last entry the client received; entries after it are backfilled.
+   * Without it, entries are backfilled from the time of the last event
+   */
+  lastEntryTimestamp?: number;
+  /** Time in ms before the token expires at which the session refreshes it (defaults to 60000) */
+  refreshLeeway?: number;
+}
+
+export interface SessionStream {
+  /** ID of the last event received on the stream */
+  readonly lastEventId: string | undefined;
+  /** Close the stream and stop re-establishing it when the token is refreshed */
+  close(): void;
+}
+
+/**
+ * Session Store Types
+ */
+export interface SessionStoreKey {
+  /** Device the session token was issued for */
+  deviceId: string;
+  /** Optional conversation the session is used for */
+  conversationId?: string;
+}
+
+export interface SessionRecord extends SessionStoreKey {
+  /** The persisted access token */
+  accessToken: string;
+  /** ID of the last event processed with the token */
+  lastEventId: string;
+  /** ISO timestamp of when the record was last written */
+  updatedAt: string;
+}
+
+export interface SessionStore {
+  /** Retrieve the record stored under a key */
+  get(key: SessionStoreKey): Promise<SessionRecord | undefined>;
+  /** Store a record under its key, replacing any existing record */
+  set(record: SessionRecord): Promise<void>;
+  /** Remove the record stored under a key */
+  delete(key: SessionStoreKey): Promise<void>;
+}
+
+/**
+ * Device Service Types
+ */
+export interface ApnsDeviceRegistrationParams {
+  /** Push notification token issued by APNs */
+  deviceToken: string;
+  /** Bundle ID of the iOS app receiving the notifications */
+  apnsBundleId: string;
+}
+
+export interface FcmDeviceRegistrationParams {
+  /** Registration token issued by Firebase Cloud Messaging */
+  deviceToken: string;
+  /** Marks the token as an FCM registration token */
+  fcm: true;
+}
+
+export type DeviceRegistrationParams = ApnsDeviceRegistrationParams | FcmDeviceRegistrationParams;
+
+/**
+ * Configuration Service Types
+ */
+export interface ConfigurationGetParams {
+  /** Language to retrieve labels in (defaults to the deployment's default language) */
+  language?: string;
+  /** Bypass the cache and fetch the configuration again */
+  forceRefresh?: boolean;
+}
+
+export interface ChoiceListValue {
+  /** API value of the choice */
+  value: string;
+  /** Display label of the choice */
+  label: string;
+  /** Display order of the choice */
+  order: number;
+  /** Whether the choice is selected by default */
+  isDefault: boolean;
+}
+
+export interface PrechatFieldDefinition {
+  /** API name of the field, used as the routing attribute key */
+  name: string;
+  /** Display label of the field */
+  label: string;
+  /** Type of the field (e.g., 'Text', 'Email', 'Phone', 'ChoiceList', 'Checkbox', 'Number') */
+  type: string;
+  /** Whether a value is required */
+  required: boolean;
+  /** Maximum length of the value */
+  maxLength?: number;
+  /** Display order of the field */
+  order: number;
+  /** Allowed values for choice list fields */
+  choices?: ChoiceListValue[];
+}
+
+export interface HiddenPrechatFieldDefinition {
+  /** API name of the field, used as the routing attribute key */
+  name: string;
+  /** Type of the field */
+  type?: string;
+  /** Maximum length of the value */
+  maxLength?: number;
+}
+
+export interface PrechatFormDefinition {
+  /** When the form is shown (e.g., 'Conversation', 'Session') */
+  displayContext?: string;
+  /** How often the form is shown */
+  displayFrequency?: string;
+  /** Fields shown to the end user, in display order */
+  fields: PrechatFieldDefinition[];
+  /** Fields populated by the client and never shown to the end user */
+  hiddenFields: HiddenPrechatFieldDefinition[];
+}
+
+export interface AttachmentSettings {
+  /** Whether end users can upload files */
+  enabled: boolean;
+  /** Allowed file extensions or MIME types, if restricted */
+  allowedFileTypes?: string[];
+  /** Maximum file size in bytes, if limited */
+  maxFileSize?: number;
+}
+
+export interface BusinessHoursWindow {
+  /** Start of the window */
+  start: Date;
+  /** End of the window */
+  end: Date;
+}
+
+export interface BusinessHoursDefinition {
+  /** Upcoming business hours windows, ordered by start */
+  windows: BusinessHoursWindow[];
+  /** Time zone the business hours are defined in, if provided */
+  timeZone?: string;
+}
+
+export interface DeploymentConfiguration {
+  /** Name of the deployment */
+  name: string;
+  /** Type of the deployment */
+  deploymentType: string;
+  /** Identifier of the messaging channel address */
+  channelAddressIdentifier?: string;
+  /** Authentication mode of the messaging channel */
+  authMode?: string;
+  /** Pre-chat form, if one is configured */
+  prechatForm?: PrechatFormDefinition;
+  /** Branding tokens keyed by name */
+  branding: Record<string, string>;
+  /** File attachment settings */
+  attachments: AttachmentSettings;
+}
+
 /**
  * Conversation Service Types
  */
@@ -84,9 +424,7 @@ export interface ConversationCreateParams {
   routingAttributes?: Record<string, unknown>;
 }
 
-export interface MessageParams {
-  /** The text content of the message */
-  text: string;
+interface BaseMessageParams {
   /** Optional ID for the message */
   id?: string;
   /** Whether this message starts a new session */
@@ -97,6 +435,119 @@ export interface MessageParams {
   language?: string;
 }
 
+export interface TextMessageParams extends BaseMessageParams {
+  /** Format of the message (defaults to 'Text') */
+  format?: 'Text';
+  /** The text content of the message */
+  text: string;
+}
+
+export interface RichLinkMessageParams extends BaseMessageParams {
+  /** Format of the message */
+  format: 'RichLink';
+  /** URL the link points to */
+  url: string;
+  /** Title shown for the link */
+  title: string;
+  /** Optional subtitle shown below the title */
+  subtitle?: string;
+  /** Optional preview image */
+  image?: {
+    /** URL of the image */
+    url: string;
+    /** MIME type of the image */
+    mimeType?: string;
+  };
+}
+
+export interface ChoiceOption {
+  /** Identifier of the option, as sent by the bot */
+  optionIdentifier: string;
+  /** Title of the option */
+  title: string;
+}
+
+export interface ChoiceSelectionParams extends BaseMessageParams {
+  /** ID of the choices message being answered */
+  inReplyToMessageId: string;
+  /** Options selected by the end user */
+  selectedOptions: ChoiceOption[];
+}
+
+export interface ChoicesResponseMessageParams extends ChoiceSelectionParams {
+  /** Format of the message */
+  format: 'ChoicesResponse';
+}
+
+export type FormResponseValue = string | number | boolean | string[];
+
+export interface FormSubmissionParams extends BaseMessageParams {
+  /** ID of the form message being answered */
+  inReplyToMessageId: string;
+  /** Submitted values keyed by input identifier */
+  values: Record<string, FormResponseValue>;
+}
+
+export interface FormResponseMessageParams extends FormSubmissionParams {
+  /** Format of the message */
+  format: 'FormResponse';
+}
+
+/** Parameters for a message, discriminated by `format` */
+export type MessageParams =
+  | TextMessageParams
+  | RichLinkMessageParams
+  | ChoicesResponseMessageParams
+  | FormResponseMessageParams;
+
+export interface ConversationEntryIterateParams {
+  /** Direction to walk the history in (defaults to 'FromStart', oldest first) */
+  direction?: 'FromEnd' | 'FromStart';
+  /** Types of entries to include */
+  entryTypeFilter?: string[];
+  /** Number of entries requested per page (defaults to 50) */
+  pageSize?: number;
+  /** Epoch ms timestamp to start from when walking from the start */
+  startTimestamp?: number;
+  /** Epoch ms timestamp to start from when walking from the end */
+  endTimestamp?: number;
+  /** Optional signal that stops the iteration before the next page is requested */
+  signal?: AbortSignal;
+}
+
+export interface UploadLimits {
+  /** Maximum file size in bytes */
+  maxFileSize?: number;
+  /** Allowed MIME types, with optional wildcards such as 'image/*' */
+  allowedMimeTypes?: string[];
+}
+
+export interface UploadProgress {
+  /** Bytes of the file sent so far */
+  loaded: number;
+  /** Total size of the file in bytes, if known */
+  total?: number;
+}
+
+export interface FileUploadParams {
+  /** Content of the file */
+  file: Blob | Buffer | ReadableStream<Uint8Array>;
+  /** Name of the file shown to the agent */
+  fileName: string;
+  /** MIME type of the file */
+  mimeType: string;
+  /** Size of the file in bytes, used to check limits before streaming a ReadableStream */
+  size?: number;
+  /** Optional text sent with the file */
+  text?: string;
+  /** Optional ID for the message */
+  id?: string;
+  /** Optional ID of the message the file answers */
+  inReplyToMessageId?: string;
+  /** Optional callback reporting upload progress */
+  onProgress?: (progress: UploadProgress) => void;
+}
+
 export interface ConversationEntryListParams {
   /** Maximum number of entries to return */
   limit?: number;
@@ -110,35 +561,276 @@ export interface ConversationEntryListParams {
   entryTypeFilter?: string[];
 }
 
-export interface ConversationEntry {
-  /** Unique identifier for the entry */
+export interface Attachment {
+  /** Unique identifier of the attachment */
   id: string;
-  /** Type of the entry (e.g., 'Message', 'TypingIndicator') */
+  /** File name of the attachment */
+  name: string;
+  /** MIME type of the attachment */
+  mimeType: string;
+  /** URL the attachment can be downloaded from with an access token */
+  url: string;
+  /** Size of the attachment in bytes, if known */
+  size?: number;
+}
+
+export interface AttachmentDownload {
+  /** Content type reported by the server */
+  contentType: string;
+  /** Size of the content in bytes, if reported by the server */
+  contentLength?: number;
+  /** Body of the attachment */
+  stream: ReadableStream<Uint8Array>;
+}
+
+export interface EntrySender {
+  /** Subject identifier of the sender */
+  id: string;
+  /** Role of the sender (e.g., 'EndUser', 'Agent', 'Chatbot', 'System') */
   type: string;
-  /** Optional text content of the entry */
-  text?: string;
-  /** Timestamp when the entry was created */
+  /** Application the sender used, if known */
+  appType?: string;
+}
+
+interface BaseConversationEntry {
+  /** Unique identifier for the entry */
+  id: string;
+  /** Client timestamp of the entry as an ISO string */
   timestamp: string;
+  /** Server timestamp of the entry as an ISO string, if transcripted */
+  serverTimestamp?: string;
+  /** Client timestamp of the entry as an ISO string */
+  clientTimestamp: string;
   /** Information about the sender */
-  sender: {
-    /** ID of the sender */
-    id: string;
-    /** Type of the sender (e.g., 'endUser', 'agent') */
-    type: string;
-  };
+  sender: EntrySender;
+  /** Display name of the sender, if known */
+  senderDisplayName?: string;
   /** Optional routing attributes */
   routingAttributes?: Record<string, unknown>;
 }
 
+/** Formats of message content */
+export type MessageFormat =
+  | 'Text'
+  | 'RichLink'
+  | 'Attachments'
+  | 'WebView'
+  | 'Buttons'
+  | 'QuickReplies'
+  | 'Carousel'
+  | 'Selections'
+  | 'Inputs'
+  | 'Result'
+  | 'Unknown';
+
+export interface MessageLink {
+  /** URL the link points to */
+  url: string;
+  /** Title of the link */
+  title?: string;
+  /** Subtitle of the link */
+  subtitle?: string;
+  /** URL of the preview image */
+  imageUrl?: string;
+}
+
+export interface MessageEntry extends BaseConversationEntry {
+  /** Type of the entry */
+  type: 'Message';
+  /** Type of the message (e.g., 'StaticContentMessage', 'ChoicesMessage') */
+  messageType: string;
+  /** Format of the message content */
+  format: MessageFormat;
+  /** Text content of the message, if any */
+  text?: string;
+  /** Link shared by a rich link message */
+  link?: MessageLink;
+  /** Options offered by a buttons, quick replies or carousel message */
+  choices?: ChoiceOption[];
+  /** Options selected in a choices response */
+  selectedOptions?: ChoiceOption[];
+  /** ID of the message this message answers */
+  inReplyToMessageId?: string;
+  /** Files attached to the message, if any */
+  attachments?: Attachment[];
+  /** Parsed message payload */
+  payload: Record<string, unknown>;
+}
+
+export interface ParticipantChange {
+  /** Whether the participant joined or left */
+  operation: 'add' | 'remove';
+  /** The participant that changed */
+  participant: EntrySender;
+  /** Display name of the participant, if known */
+  displayName?: string;
+}
+
+export interface ParticipantChangedEntry extends BaseConversationEntry {
+  /** Type of the entry */
+  type: 'ParticipantChanged';
+  /** Participants that joined or left */
+  changes: ParticipantChange[];
+  /** Parsed entry payload */
+  payload: Record<string, unknown>;
+}
+
+export interface RoutingResultEntry extends BaseConversationEntry {
+  /** Type of the entry */
+  type: 'RoutingResult';
+  /** Type of routing (e.g., 'Initial', 'Transfer') */
+  routingType?: string;
+  /** Reason routing failed, or 'None' */
+  failureType?: string;
+  /** Estimated wait time in seconds, if requested */
+  estimatedWaitTime?: number;
+  /** Parsed entry payload */
+  payload: Record<string, unknown>;
+}
+
+export interface RoutingWorkResultEntry extends BaseConversationEntry {
+  /** Type of the entry */
+  type: 'RoutingWorkResult';
+  /** Outcome of the routed work (e.g., 'Accepted', 'Assigned', 'Closed') */
+  workType?: string;
+  /** Parsed entry payload */
+  payload: Record<string, unknown>;
+}
+
+export interface CloseConversationEntry extends BaseConversationEntry {
+  /** Type of the entry */
+  type: 'CloseConversation';
+  /** Parsed entry payload */
+  payload: Record<string, unknown>;
+}
+
+export interface AcknowledgementEntry extends BaseConversationEntry {
+  /** Type of the entry */
+  type: 'DeliveryAcknowledgement' | 'ReadAcknowledgement';
+  /** ID of the entry being acknowledged */
+  acknowledgedEntryId?: string;
+  /** When the entry was acknowledged, as an ISO string */
+  acknowledgedAt?: string;
+  /** Parsed entry payload */
+  payload: Record<string, unknown>;
+}
+
+export interface TypingIndicatorEntry extends BaseConversationEntry {
+  /** Type of the entry */
+  type: 'TypingStartedIndicator' | 'TypingStoppedIndicator';
+  /** Parsed entry payload */
+  payload: Record<string, unknown>;
+}
+
+export interface RawConversationEntry extends BaseConversationEntry {
+  /** Type of the entry */
+  type: 'Raw';
+  /** Entry type reported by the API */
+  entryType: string;
+  /** The unparsed entry payload */
+  payload: string;
+  /** Why the entry could not be parsed, if it was malformed */
+  error?: string;
+}
+
+/**
+ * A conversation entry, discriminated by `type`.
+ * Entries of unknown types and entries with malformed payloads are returned as `Raw` entries.
+ */
+export type ConversationEntry =
+  | MessageEntry
+  | ParticipantChangedEntry
+  | RoutingResultEntry
+  | RoutingWorkResultEntry
+  | CloseConversationEntry
+  | AcknowledgementEntry
+  | TypingIndicatorEntry
+  | RawConversationEntry;
+
+/** Routing status of a conversation, or 'Unknown' for statuses this client does not recognize */
+export type RoutingStatus = 'Initial' | 'Waiting' | 'Transfer' | 'Routed' | 'Closed' | 'Unknown';
+
 export interface ConversationStatus {
   /** ID of the conversation */
   id: string;
-  /** Current status of the conversation */
-  status: string;
-  /** Timestamp of the last activity */
-  lastActivityTimestamp: string;
-  /** Whether the conversation is currently active */
+  /** Current routing status of the conversation */
+  status: RoutingStatus;
+  /** Routing status as reported by the API */
+  rawStatus: string;
+  /** Timestamp of the last activity, if reported */
+  lastActivityTimestamp?: string;
+  /** Estimated wait time in seconds, if reported */
+  estimatedWaitTime?: number;
+  /** Whether the conversation is still open */
+  isActive: boolean;
+}
+
+export interface WaitForRoutingParams {
+  /** Statuses to wait for (defaults to 'Routed'); a closed conversation always ends the wait */
+  until?: RoutingStatus | RoutingStatus[];
+  /** Time in ms to wait before rejecting with a timeout error (defaults to no timeout) */
+  timeout?: number;
+  /** Optional signal that cancels the wait */
+  signal?: AbortSignal;
+  /** Time in ms between status checks (defaults to 5000) */
+  pollInterval?: number;
+}
+
+export interface ConversationParticipant extends EntrySender {
+  /** Display name of the participant, if known */
+  displayName?: string;
+}
+
+export interface TypingState {
+  /** Participant that started or stopped typing */
+  participant: EntrySender;
+  /** Whether the participant is typing */
+  isTyping: boolean;
+}
+
+/** Events emitted by a conversation handle, mapped to the value passed to their listeners */
+export interface ConversationEvents {
+  /** An entry was added to the conversation, from the event stream, a send or loaded history */
+  entry: ConversationEntry;
+  /** The routing status of the conversation changed */
+  status: ConversationStatus;
+  /** A participant joined or left; lists the current participants */
+  participants: ConversationParticipant[];
+  /** Another participant started or stopped typing */
+  typing: TypingState;
+  /** The conversation was closed */
+  close: CloseConversationEntry;
+  /** Handling an event or refreshing the status failed */
+  error: unknown;
+}
+
+export interface ConversationConnectParams {
+  /** ID of the last event processed; the stream resumes after it */
+  lastEventId?: string;
+  /** Epoch ms timestamp of the last entry received; the entries after it are backfilled */
+  lastEntryTimestamp?: number;
+}
+
+export interface ConversationListParams {
+  /** Whether to include closed conversations (defaults to false) */
+  includeClosed?: boolean;
+  /** Maximum number of conversations to return */
+  limit?: number;
+}
+
+export interface ConversationSummary {
+  /** ID of the conversation */
+  id: string;
+  /** Current routing status of the conversation */
+  status: RoutingStatus;
+  /** Whether the conversation is still open */
   isActive: boolean;
+  /** Preview of the last message or event in the conversation, if any */
+  lastEntry?: TranscriptEntry;
+  /** Timestamp of the last activity as an ISO string, if known */
+  lastActivity?: string;
+  /** Number of messages from agents and bots after the last one the end user read */
+  unreadCount: number;
 }
 
 export interface ConversationResponse {
@@ -160,4 +852,53 @@ export interface ReceiptEntry {
 export interface ReceiptParams {
   /** List of receipt entries to send */
   entries: ReceiptEntry[];
-} 
\ No newline at end of file
+}
+
+/**
+ * Transcript Types
+ */
+export type TranscriptFormat = 'json' | 'text' | 'html' | 'csv';
+
+export interface TranscriptOptions {
+  /** Output format */
+  format: TranscriptFormat;
+  /** IANA time zone timestamps are shown in (defaults to 'UTC') */
+  timeZone?: string;
+  /** ID of the conversation, included in the transcript header */
+  conversationId?: string;
+  /** Title of the transcript (defaults to 'Conversation transcript') */
+  title?: string;
+}
+
+export interface TranscriptDocument {
+  /** Content type of the document (e.g., 'application/pdf') */
+  contentType: string;
+  /** Size of the document in bytes, if reported by the server */
+  contentLength?: number;
+  /** File name suggested by the server, if any */
+  fileName?: string;
+  /** Body of the document, streamed as received; served from the buffer once it has been read */
+  stream: ReadableStream<Uint8Array>;
+  /** Reads the whole document into a Buffer; rejects once the stream has been taken */
+  buffer(): Promise<Buffer>;
+}
+
+export interface TranscriptEntry {
+  /** ID of the conversation entry */
+  id: string;
+  /** Whether the entry is a message or a system event such as a participant joining */
+  kind: 'message' | 'event';
+  /** Timestamp of the entry as an ISO string */
+  timestamp: string;
+  /** Timestamp of the entry in the transcript time zone, as 'YYYY-MM-DD HH:mm:ss' */
+  localTime: string;
+  /** Display name of the sender, or of the participant for participant events */
+  senderName: string;
+  /** Role of the sender (e.g., 'EndUser', 'Agent', 'Chatbot', 'System') */
+  senderRole: string;
+  /** Text of the message or description of the event */
+  text: string;
+  /** Files attached to the message */
+  attachments: Attachment[];
+}
+
@@ -51,6 +51,44 @@ export interface ConversationRoutingStatusResponse {
   conversationId: string;
   /** Current routing status */
   routingStatus: string;
+  /** Status of the conversation (e.g., 'Open', 'Closed') */
+  conversationStatus?: string;
+  /** Epoch ms timestamp of the last activity in the conversation */
+  lastActivityTimestamp?: number;
+  /** Estimated wait time, when routing to a queue */
+  estimatedWaitTime?: {
+    /** Estimated wait time in seconds */
+    estimatedWaitTimeInSeconds?: number;
+  };
+}
+
+/**
+ * Conversation entry as returned by the entries endpoint and in SSE events
+ */
+export interface ConversationEntryData {
+  /** Type of the entry */
+  entryType: string;
+  /** Content of the entry as a JSON string */
+  entryPayload: string;
+  /** Server timestamp of the entry */
+  transcriptedTimestamp?: number;
+  /** Information about the sender */
+  sender?: {
+    /** Role of the sender */
+    role: string;
+    /** Subject identifier */
+    subject: string;
+    /** Optional application type */
+    appType?: string;
+    /** Optional client identifier */
+    clientIdentifier?: string;
+  };
+  /** Client timestamp of the entry */
+  clientTimestamp: number;
+  /** Unique identifier for the entry */
+  identifier: string;
+  /** Display name of the sender */
+  senderDisplayName?: string;
 }
 
 /**
@@ -58,31 +96,33 @@ export interface ConversationRoutingStatusResponse {
  */
 export interface ConversationEntryResponse {
   /** List of conversation entries */
-  conversationEntries: Array<{
-    /** Type of the entry */
-    entryType: string;
-    /** Content of the entry */
-    entryPayload: string;
-    /** Server timestamp of the entry */
-    transcriptedTimestamp: number;
-    /** Information about the sender */
-    sender: {
-      /** Role of the sender */
-      role: string;
-      /** Subject identifier */
-      subject: string;
-      /** Optional application type */
-      appType?: string;
-      /** Optional client identifier */
-      clientIdentifier?: string;
-    };
-    /** Client timestamp of the entry */
-    clientTimestamp: number;
-    /** Unique identifier for the entry */
-    identifier: string;
-    /** Display name of the sender */
-    senderDisplayName: string;
-  }>;
+  conversationEntries: ConversationEntryData[];
+}
+
+/**
+ * Conversation as returned by the conversation list endpoint
+ */
+export interface ConversationListItemData {
+  /** ID of the conversation */
+  conversationId: string;
+  /** Status of the conversation (e.g., 'Open', 'Closed') */
+  conversationStatus?: string;
+  /** Current routing status */
+  routingStatus?: string;
+  /** Epoch ms timestamp of when the conversation started */
+  startTimestamp?: number;
+  /** Epoch ms timestamp of when the conversation ended, if closed */
+  endTimestamp?: number;
+  /** Epoch ms timestamp of the last activity in the conversation */
+  lastActiveTimestamp?: number;
+}
+
+/**
+ * Response from conversation list endpoint
+ */
+export interface ConversationListResponse {
+  /** Conversations of the end user */
+  conversations: ConversationListItemData[];
 }
 
 /**
@@ -98,6 +138,174 @@ export interface MessageResponse {
   }>;
 }
 
+/**
+ * File attachment as it appears in a message entry payload
+ */
+export interface AttachmentPayload {
+  /** Unique identifier of the attachment */
+  id: string;
+  /** File name of the attachment */
+  name: string;
+  /** MIME type of the attachment */
+  mimeType: string;
+  /** URL the attachment can be downloaded from */
+  url: string;
+  /** Optional size of the attachment in bytes */
+  size?: number;
+}
+
+/**
+ * Option of a choices message or choices response as it appears in an entry payload
+ */
+export interface OptionItemPayload {
+  /** Identifier of the option */
+  optionIdentifier: string;
+  /** Title of the option */
+  titleItem?: {
+    /** Title text */
+    title: string;
+  };
+  /** Title of the option in choices responses */
+  title?: string;
+}
+
+/**
+ * Parsed entryPayload of a Message conversation entry
+ */
+export interface MessageEntryPayload {
+  /** Type of the entry */
+  entryType: 'Message';
+  /** Unique identifier of the entry */
+  id: string;
+  /** The message */
+  abstractMessage: {
+    /** Type of the message (e.g., 'StaticContentMessage') */
+    messageType: string;
+    /** Unique identifier of the message */
+    id: string;
+    /** ID of the message this message answers */
+    inReplyToMessageId?: string;
+    /** Static content of the message */
+    staticContent?: {
+      /** Format of the content (e.g., 'Text', 'Attachments') */
+      formatType: string;
+      /** Optional text of the content */
+      text?: string;
+      /** Attachments of the content */
+      attachments?: AttachmentPayload[];
+      /** Link of rich link content */
+      linkItem?: {
+        /** URL of the link */
+        url: string;
+        /** Title of the link */
+        titleItem?: {
+          /** Title text */
+          title: string;
+          /** Subtitle text */
+          subtitle?: string;
+        };
+      };
+      /** Preview image of rich link content */
+      image?: {
+        /** URL of the image */
+        url: string;
+      };
+    };
+    /** Choices offered by the message */
+    choices?: {
+      /** Format of the choices (e.g., 'Buttons', 'QuickReplies', 'Carousel') */
+      formatType: string;
+      /** Optional text shown with the choices */
+      text?: string;
+      /** Options of buttons and quick replies */
+      optionItems?: OptionItemPayload[];
+      /** Items of a carousel, each with its own options */
+      items?: Array<{
+        /** Options of the item */
+        interactionItems?: OptionItemPayload[];
+      }>;
+    };
+    /** Response to a choices message */
+    choicesResponse?: {
+      /** Format of the response (e.g., 'Selections') */
+      formatType: string;
+      /** ID of the choices message being answered */
+      inReplyToMessageId?: string;
+      /** Selected options */
+      selectedOptions?: OptionItemPayload[];
+    };
+    /** Form sent to the end user */
+    form?: {
+      /** Format of the form (e.g., 'Inputs') */
+      formatType: string;
+    };
+    /** Response to a form */
+    formResponse?: {
+      /** Format of the response */
+      formatType: string;
+      /** ID of the form message being answered */
+      inReplyToMessageId?: string;
+    };
+  };
+}
+
+/**
+ * Parsed entryPayload of a ParticipantChanged conversation entry
+ */
+export interface ParticipantChangedPayload {
+  /** Participants that joined or left */
+  entries?: Array<{
+    /** Operation (e.g., 'add', 'remove') */
+    operation: string;
+    /** The participant */
+    participant: {
+      /** Role of the participant */
+      role: string;
+      /** Subject identifier */
+      subject: string;
+      /** Optional application type */
+      appType?: string;
+    };
+    /** Display name of the participant */
+    displayName?: string;
+  }>;
+}
+
+/**
+ * Parsed entryPayload of a RoutingResult conversation entry
+ */
+export interface RoutingResultPayload {
+  /** Type of routing */
+  routingType?: string;
+  /** Reason routing failed, or 'None' */
+  failureType?: string;
+  /** Estimated wait time */
+  estimatedWaitTime?: {
+    /** Whether the estimated wait time was requested */
+    isEWTRequested?: boolean;
+    /** Estimated wait time in seconds */
+    estimatedWaitTimeInSeconds?: number;
+  };
+}
+
+/**
+ * Parsed entryPayload of a RoutingWorkResult conversation entry
+ */
+export interface RoutingWorkResultPayload {
+  /** Outcome of the routed work */
+  workType?: string;
+}
+
+/**
+ * Parsed entryPayload of a delivery or read acknowledgement entry
+ */
+export interface AcknowledgementPayload {
+  /** ID of the acknowledged entry */
+  acknowledgedConversationEntryIdentifier?: string;
+  /** When the entry was acknowledged */
+  acknowledgementTimestamp?: number;
+}
+
 /**
  * Types of SSE events that can be received
  */
@@ -282,3 +490,110 @@ export type SSEEvent =
   | SSEReadAcknowledgement
   | SSETypingIndicator
   | SSECloseConversation;
+
+/**
+ * Response from embedded service configuration endpoint
+ */
+export interface EmbeddedServiceConfigResponse {
+  /** Embedded service deployment configuration */
+  embeddedServiceConfig: {
+    /** Name of the deployment */
+    name: string;
+    /** Type of deployment */
+    deploymentType: string;
+    /** Messaging channel configuration */
+    embeddedServiceMessagingChannel?: {
+      /** Channel address identifier */
+      channelAddressIdentifier: string;
+      /** Authentication mode */
+      authMode: string;
+      /** Optional file transfer settings */
+      fileTransfer?: {
+        /** Whether end users can upload files */
+        enableFileUpload?: boolean;
+        /** Comma separated list of allowed file extensions or MIME types */
+        allowedFileTypes?: string;
+        /** Maximum file size in bytes */
+        maxFileSize?: number;
+      };
+    };
+    /** Forms configured for the deployment */
+    forms?: Array<{
+      /** Type of the form */
+      formType: string;
+      /** When the form is shown */
+      displayContext?: string;
+      /** How often the form is shown */
+      displayFrequency?: string;
+      /** Fields shown to the end user */
+      formFields?: Array<{
+        /** API name of the field */
+        name: string;
+        /** Display label of the field */
+        label?: string;
+        /** Label reference for translations */
+        labelReference?: string;
+        /** Display order of the field */
+        order?: number;
+        /** Type of the field (e.g., 'Text', 'Email', 'Phone', 'ChoiceList', 'Checkbox', 'Number') */
+        type: string;
+        /** Whether the field is required */
+        required?: boolean;
+        /** Maximum length of the field value */
+        maxLength?: number;
+        /** ID of the choice list for choice list fields */
+        choiceListId?: string | null;
+      }>;
+      /** Fields populated by the client and never shown to the end user */
+      hiddenFormFields?: Array<{
+        /** API name of the field */
+        name: string;
+        /** Type of the field */
+        type?: string;
+        /** Maximum length of the field value */
+        maxLength?: number;
+      }>;
+    }>;
+    /** Choice lists referenced by form fields */
+    choiceListConfig?: {
+      /** Configured choice lists */
+      choiceList?: Array<{
+        /** ID of the choice list */
+        choiceListId: string;
+        /** Values of the choice list */
+        choiceListValues?: Array<{
+          /** API value of the choice */
+          choiceListValueName: string;
+          /** Display label of the choice */
+          label?: string;
+          /** Display order of the choice */
+          order?: number;
+          /** Whether the choice is selected by default */
+          isDefaultValue?: boolean;
+        }>;
+      }>;
+    };
+    /** Branding tokens as name/value pairs */
+    branding?: Array<{
+      /** Name of the branding token */
+      n: string;
+      /** Value of the branding token */
+      v: string;
+    }>;
+  };
+}
+
+export interface BusinessHoursResponse {
+  /** Business hours of the deployment, if configured */
+  businessHoursInfo?: {
+    /** Upcoming business hours windows */
+    businessHours?: Array<{
+      /** Start of the window in ms since the epoch */
+      startTime: number;
+      /** End of the window in ms since the epoch */
+      endTime: number;
+    }>;
+    /** Time zone the business hours are defined in */
+    timeZone?: string;
+  };
+}
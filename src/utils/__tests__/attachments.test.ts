@@ -0,0 +1,58 @@
+/// <reference types="jest" />
+import { getEventAttachments, parseAttachments } from '../attachments.js';
+
+const entryPayload = JSON.stringify({
+  entryType: 'Message',
+  id: 'entry-1',
+  abstractMessage: {
+    messageType: 'StaticContentMessage',
+    id: 'msg-1',
+    staticContent: {
+      formatType: 'Attachments',
+      attachments: [
+        {
+          id: 'file-1',
+          name: 'invoice.pdf',
+          mimeType: 'application/pdf',
+          url: 'https://test.com/files/file-1',
+          size: 2048,
+        },
+        { id: 'file-2', name: 'broken.png' },
+      ],
+    },
+  },
+});
+
+describe('parseAttachments', () => {
+  it('should extract complete attachments from a message payload', () => {
+    expect(parseAttachments(entryPayload)).toEqual([
+      {
+        id: 'file-1',
+        name: 'invoice.pdf',
+        mimeType: 'application/pdf',
+        url: 'https://test.com/files/file-1',
+        size: 2048,
+      },
+    ]);
+  });
+
+  it('should return no attachments for text and malformed payloads', () => {
+    expect(
+      parseAttachments(
+        JSON.stringify({ abstractMessage: { staticContent: { formatType: 'Text', text: 'Hi' } } })
+      )
+    ).toEqual([]);
+    expect(parseAttachments('not json')).toEqual([]);
+    expect(parseAttachments('null')).toEqual([]);
+  });
+});
+
+describe('getEventAttachments', () => {
+  it('should extract attachments from message events only', () => {
+    const data = JSON.stringify({ conversationEntry: { entryPayload } });
+
+    expect(getEventAttachments({ event: 'CONVERSATION_MESSAGE', data })).toHaveLength(1);
+    expect(getEventAttachments({ event: 'CONVERSATION_ROUTING_RESULT', data })).toEqual([]);
+    expect(getEventAttachments({ event: 'CONVERSATION_MESSAGE', data: '{' })).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+/// <reference types="jest" />
+import { parseConversationEntry, parseEventEntry, toConversationEntryData } from '../entries.js';
+import type { ConversationEntryData } from '../../types/api.js';
+
+function createEntry(entryType: string, payload: unknown): ConversationEntryData {
+  return {
+    identifier: 'entry-1',
+    entryType,
+    entryPayload: typeof payload === 'string' ? payload : JSON.stringify(payload),
+    clientTimestamp: 1704067200000,
+    transcriptedTimestamp: 1704067201000,
+    sender: { role: 'Chatbot', subject: 'bot-1', appType: 'chatbot' },
+    senderDisplayName: 'Help Bot',
+  };
+}
+
+describe('parseConversationEntry', () => {
+  it('should parse text messages with sender and timestamps', () => {
+    const entry = parseConversationEntry(
+      createEntry('Message', {
+        entryType: 'Message',
+        id: 'entry-1',
+        abstractMessage: {
+          messageType: 'StaticContentMessage',
+          id: 'msg-1',
+          staticContent: { formatType: 'Text', text: 'Hello' },
+        },
+      })
+    );
+
+    expect(entry).toMatchObject({
+      type: 'Message',
+      id: 'entry-1',
+      messageType: 'StaticContentMessage',
+      format: 'Text',
+      text: 'Hello',
+      timestamp: '2024-01-01T00:00:00.000Z',
+      clientTimestamp: '2024-01-01T00:00:00.000Z',
+      serverTimestamp: '2024-01-01T00:00:01.000Z',
+      sender: { id: 'bot-1', type: 'Chatbot', appType: 'chatbot' },
+      senderDisplayName: 'Help Bot',
+    });
+  });
+
+  it('should parse button and carousel choices', () => {
+    const buttons = parseConversationEntry(
+      createEntry('Message', {
+        abstractMessage: {
+          messageType: 'ChoicesMessage',
+          id: 'msg-1',
+          choices: {
+            formatType: 'Buttons',
+            text: 'Pick a topic',
+            optionItems: [{ optionIdentifier: 'billing', titleItem: { title: 'Billing' } }],
+          },
+        },
+      })
+    );
+    const carousel = parseConversationEntry(
+      createEntry('Message', {
+        abstractMessage: {
+          messageType: 'ChoicesMessage',
+          id: 'msg-2',
+          choices: {
+            formatType: 'Carousel',
+            items: [
+              { interactionItems: [{ optionIdentifier: 'a', titleItem: { title: 'Plan A' } }] },
+            ],
+          },
+        },
+      })
+    );
+
+    expect(buttons).toMatchObject({
+      format: 'Buttons',
+      text: 'Pick a topic',
+      choices: [{ optionIdentifier: 'billing', title: 'Billing' }],
+    });
+    expect(carousel).toMatchObject({
+      format: 'Carousel',
+      choices: [{ optionIdentifier: 'a', title: 'Plan A' }],
+    });
+  });
+
+  it('should parse rich links and attachments', () => {
+    const entry = parseConversationEntry(
+      createEntry('Message', {
+        abstractMessage: {
+          messageType: 'StaticContentMessage',
+          id: 'msg-1',
+          staticContent: {
+            formatType: 'RichLink',
+            linkItem: { url: 'https://example.com', titleItem: { title: 'Example' } },
+            image: { url: 'https://example.com/preview.png' },
+          },
+        },
+      })
+    );
+
+    expect(entry).toMatchObject({
+      format: 'RichLink',
+      link: {
+        url: 'https://example.com',
+        title: 'Example',
+        imageUrl: 'https://example.com/preview.png',
+      },
+    });
+  });
+
+  it('should parse participant changes, routing results and acknowledgements', () => {
+    expect(
+      parseConversationEntry(
+        createEntry('ParticipantChanged', {
+          entries: [
+            {
+              operation: 'add',
+              participant: { role: 'Agent', subject: 'agent-1', appType: 'agent' },
+              displayName: 'Ada',
+            },
+          ],
+        })
+      )
+    ).toMatchObject({
+      type: 'ParticipantChanged',
+      changes: [
+        {
+          operation: 'add',
+          participant: { id: 'agent-1', type: 'Agent', appType: 'agent' },
+          displayName: 'Ada',
+        },
+      ],
+    });
+
+    expect(
+      parseConversationEntry(
+        createEntry('RoutingResult', {
+          routingType: 'Initial',
+          failureType: 'None',
+          estimatedWaitTime: { isEWTRequested: true, estimatedWaitTimeInSeconds: 120 },
+        })
+      )
+    ).toMatchObject({
+      type: 'RoutingResult',
+      routingType: 'Initial',
+      failureType: 'None',
+      estimatedWaitTime: 120,
+    });
+
+    expect(
+      parseConversationEntry(createEntry('RoutingWorkResult', { workType: 'Accepted' }))
+    ).toMatchObject({ type: 'RoutingWorkResult', workType: 'Accepted' });
+
+    expect(
+      parseConversationEntry(
+        createEntry('ReadAcknowledgement', {
+          acknowledgedConversationEntryIdentifier: 'msg-1',
+          acknowledgementTimestamp: 1704067202000,
+        })
+      )
+    ).toMatchObject({
+      type: 'ReadAcknowledgement',
+      acknowledgedEntryId: 'msg-1',
+      acknowledgedAt: '2024-01-01T00:00:02.000Z',
+    });
+  });
+
+  it('should fall back to raw entries for unknown types and malformed payloads', () => {
+    expect(parseConversationEntry(createEntry('SessionStatusChanged', {}))).toMatchObject({
+      type: 'Raw',
+      entryType: 'SessionStatusChanged',
+      payload: '{}',
+    });
+    expect(parseConversationEntry(createEntry('Message', '{not json'))).toMatchObject({
+      type: 'Raw',
+      entryType: 'Message',
+      payload: '{not json',
+      error: 'Entry payload is not valid JSON',
+    });
+    expect(parseConversationEntry(createEntry('Message', { entryType: 'Message' }))).toMatchObject({
+      type: 'Raw',
+      error: 'Message entry has no message',
+    });
+  });
+});
+
+describe('parseEventEntry', () => {
+  it('should parse the conversation entry carried by an event', () => {
+    const data = JSON.stringify({
+      conversationId: 'conv-1',
+      conversationEntry: createEntry('TypingStartedIndicator', {}),
+    });
+
+    expect(parseEventEntry({ event: 'CONVERSATION_TYPING_STARTED_INDICATOR', data })).toEqual({
+      conversationId: 'conv-1',
+      entry: expect.objectContaining({ id: 'entry-1', type: 'TypingStartedIndicator' }),
+    });
+  });
+
+  it('should ignore events without a conversation entry', () => {
+    expect(parseEventEntry({ event: 'ping', data: '{}' })).toBeUndefined();
+    expect(parseEventEntry({ event: 'ping', data: 'not json' })).toBeUndefined();
+  });
+});
+
+describe('toConversationEntryData', () => {
+  it('should convert typed entries back into raw entries that parse the same', () => {
+    const message = createEntry('Message', {
+      abstractMessage: {
+        messageType: 'StaticContentMessage',
+        id: 'msg-1',
+        staticContent: { formatType: 'Text', text: 'Hello' },
+      },
+    });
+    const unknown = createEntry('SessionStatusChanged', { status: 'Active' });
+
+    for (const data of [message, unknown]) {
+      const entry = parseConversationEntry(data);
+      expect(toConversationEntryData(entry)).toEqual(data);
+      expect(parseConversationEntry(toConversationEntryData(entry))).toEqual(entry);
+    }
+  });
+});
@@ -0,0 +1,133 @@
+/// <reference types="jest" />
+import { generateKeyPairSync } from 'crypto';
+import { signCustomerIdentityToken, verifyCustomerIdentityToken } from '../identityToken.js';
+import { decodeJwt } from '../jwt.js';
+
+const rsaKeys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const ecKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+const claims = {
+  issuer: 'https://example.com',
+  subject: 'customer-123',
+  audience: 'https://test.my.salesforce.com',
+};
+
+describe('identityToken', () => {
+  describe('signCustomerIdentityToken', () => {
+    it('should sign RS256 tokens with the expected claims', () => {
+      const token = signCustomerIdentityToken({
+        ...claims,
+        privateKey: rsaKeys.privateKey,
+        keyId: 'key-1',
+        issuedAt: new Date('2024-01-01T00:00:00Z'),
+        expiresIn: 600,
+      });
+
+      const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+      expect(header).toEqual({ alg: 'RS256', typ: 'JWT', kid: 'key-1' });
+      expect(decodeJwt(token)).toEqual({
+        iss: 'https://example.com',
+        sub: 'customer-123',
+        aud: 'https://test.my.salesforce.com',
+        iat: 1704067200,
+        exp: 1704067800,
+      });
+    });
+
+    it('should infer ES256 from an EC key', () => {
+      const token = signCustomerIdentityToken({ ...claims, privateKey: ecKeys.privateKey });
+
+      const header = JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString());
+      expect(header.alg).toBe('ES256');
+      expect(Buffer.from(token.split('.')[2], 'base64url')).toHaveLength(64);
+    });
+
+    it('should accept PEM encoded keys', () => {
+      const pem = rsaKeys.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+
+      const token = signCustomerIdentityToken({ ...claims, privateKey: pem });
+
+      expect(verifyCustomerIdentityToken(token, rsaKeys.publicKey)).toMatchObject({
+        sub: 'customer-123',
+      });
+    });
+
+    it('should reject keys that do not match the algorithm', () => {
+      expect(() =>
+        signCustomerIdentityToken({ ...claims, privateKey: rsaKeys.privateKey, algorithm: 'ES256' })
+      ).toThrow('ES256 requires an EC private key');
+    });
+
+    it('should reject EC keys on curves other than P-256', () => {
+      const p384Keys = generateKeyPairSync('ec', { namedCurve: 'P-384' });
+
+      expect(() =>
+        signCustomerIdentityToken({ ...claims, privateKey: p384Keys.privateKey })
+      ).toThrow('ES256 requires a P-256 private key');
+    });
+  });
+
+  describe('verifyCustomerIdentityToken', () => {
+    it('should verify tokens signed with either algorithm', () => {
+      const rsaToken = signCustomerIdentityToken({ ...claims, privateKey: rsaKeys.privateKey });
+      const ecToken = signCustomerIdentityToken({ ...claims, privateKey: ecKeys.privateKey });
+
+      const options = { issuer: claims.issuer, audience: claims.audience };
+      expect(verifyCustomerIdentityToken(rsaToken, rsaKeys.publicKey, options).sub).toBe(
+        'customer-123'
+      );
+      expect(verifyCustomerIdentityToken(ecToken, ecKeys.publicKey, options).sub).toBe(
+        'customer-123'
+      );
+    });
+
+    it('should reject tokens signed with another key', () => {
+      const otherKeys = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+      const token = signCustomerIdentityToken({ ...claims, privateKey: otherKeys.privateKey });
+
+      expect(() => verifyCustomerIdentityToken(token, ecKeys.publicKey)).toThrow(
+        'Invalid customer identity token signature'
+      );
+    });
+
+    it('should reject ES256 tokens with a public key on another curve', () => {
+      const token = signCustomerIdentityToken({ ...claims, privateKey: ecKeys.privateKey });
+      const p384Keys = generateKeyPairSync('ec', { namedCurve: 'P-384' });
+
+      expect(() => verifyCustomerIdentityToken(token, p384Keys.publicKey)).toThrow(
+        'ES256 requires a P-256 public key'
+      );
+    });
+
+    it('should reject expired tokens', () => {
+      const token = signCustomerIdentityToken({
+        ...claims,
+        privateKey: ecKeys.privateKey,
+        issuedAt: new Date('2024-01-01T00:00:00Z'),
+      });
+
+      expect(() =>
+        verifyCustomerIdentityToken(token, ecKeys.publicKey, {
+          now: new Date('2024-01-01T00:10:00Z'),
+        })
+      ).toThrow('Customer identity token has expired');
+    });
+
+    it('should reject tokens for another issuer or audience', () => {
+      const token = signCustomerIdentityToken({ ...claims, privateKey: ecKeys.privateKey });
+
+      expect(() =>
+        verifyCustomerIdentityToken(token, ecKeys.publicKey, { issuer: 'https://other.com' })
+      ).toThrow('issuer does not match');
+      expect(() =>
+        verifyCustomerIdentityToken(token, ecKeys.publicKey, { audience: 'https://other.com' })
+      ).toThrow('audience does not match');
+    });
+
+    it('should reject malformed tokens', () => {
+      expect(() => verifyCustomerIdentityToken('not-a-jwt', ecKeys.publicKey)).toThrow(
+        'Malformed customer identity token'
+      );
+    });
+  });
+});
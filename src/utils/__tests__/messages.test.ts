@@ -0,0 +1,103 @@
+/// <reference types="jest" />
+import { buildMessagePayload, validateMessageParams } from '../messages.js';
+
+describe('validateMessageParams', () => {
+  it('should accept text messages with or without a format', () => {
+    expect(validateMessageParams({ text: 'Hello' })).toEqual([]);
+    expect(validateMessageParams({ format: 'Text', text: 'Hello' })).toEqual([]);
+  });
+
+  it('should require message text', () => {
+    expect(validateMessageParams({ text: ' ' })).toEqual([
+      { field: 'text', code: 'required', message: 'Message text is required' },
+    ]);
+  });
+
+  it('should require an http(s) URL and title for rich links', () => {
+    const issues = validateMessageParams({
+      format: 'RichLink',
+      title: '',
+      url: 'javascript:alert(1)',
+      image: { url: 'not a url' },
+    });
+
+    expect(issues.map(issue => `${issue.field}:${issue.code}`)).toEqual([
+      'title:required',
+      'url:invalid_format',
+      'image.url:invalid_format',
+    ]);
+  });
+
+  it('should require a reply target and a selection for choices responses', () => {
+    const issues = validateMessageParams({
+      format: 'ChoicesResponse',
+      inReplyToMessageId: '',
+      selectedOptions: [],
+    });
+
+    expect(issues.map(issue => `${issue.field}:${issue.code}`)).toEqual([
+      'inReplyToMessageId:required',
+      'selectedOptions:required',
+    ]);
+  });
+
+  it('should require values for form responses', () => {
+    const issues = validateMessageParams({
+      format: 'FormResponse',
+      inReplyToMessageId: 'form-1',
+      values: {},
+    });
+
+    expect(issues).toEqual([
+      { field: 'values', code: 'required', message: 'At least one form value is required' },
+    ]);
+  });
+});
+
+describe('buildMessagePayload', () => {
+  it('should build rich link static content', () => {
+    expect(
+      buildMessagePayload(
+        {
+          format: 'RichLink',
+          title: 'Order status',
+          url: 'https://example.com/orders/1',
+          image: { url: 'https://example.com/order.png', mimeType: 'image/png' },
+        },
+        'msg-1'
+      )
+    ).toEqual({
+      id: 'msg-1',
+      messageType: 'StaticContentMessage',
+      staticContent: {
+        formatType: 'RichLink',
+        linkItem: { url: 'https://example.com/orders/1', titleItem: { title: 'Order status' } },
+        image: { assetType: 'Image', url: 'https://example.com/order.png', mimeType: 'image/png' },
+      },
+    });
+  });
+
+  it('should build form responses from submitted values', () => {
+    expect(
+      buildMessagePayload(
+        {
+          format: 'FormResponse',
+          inReplyToMessageId: 'form-1',
+          values: { email: 'ada@example.com', subscribe: true },
+        },
+        'msg-1'
+      )
+    ).toEqual({
+      id: 'msg-1',
+      messageType: 'FormResponseMessage',
+      formResponse: {
+        formatType: 'Inputs',
+        inReplyToMessageId: 'form-1',
+        inputValues: [
+          { identifier: 'email', value: 'ada@example.com' },
+          { identifier: 'subscribe', value: true },
+        ],
+      },
+    });
+  });
+});
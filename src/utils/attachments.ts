@@ -0,0 +1,72 @@
+import type { EventSourceMessage } from 'eventsource-client';
+import type { Attachment } from '../types';
+import type { AttachmentPayload, MessageEntryPayload } from '../types/api';
+
+/**
+ * Extracts the attachments from the entryPayload of a conversation entry.
+ * Payloads that are not attachment messages, or are not valid JSON, have no attachments.
+ * @param {string} entryPayload - Raw entryPayload JSON string
+ * @returns {Attachment[]} The attachments of the entry
+ */
+export function parseAttachments(entryPayload: string): Attachment[] {
+  try {
+    return extractAttachments(JSON.parse(entryPayload));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Extracts the attachments from a parsed entry payload.
+ * @param {unknown} payload - Parsed entryPayload of a conversation entry
+ * @returns {Attachment[]} The attachments of the entry
+ */
+export function extractAttachments(payload: unknown): Attachment[] {
+  const attachments = (payload as Partial<MessageEntryPayload> | null)?.abstractMessage
+    ?.staticContent?.attachments;
+  if (!Array.isArray(attachments)) {
+    return [];
+  }
+
+  return attachments.filter(isAttachmentPayload).map(attachment => ({
+    id: attachment.id,
+    name: attachment.name,
+    mimeType: attachment.mimeType,
+    url: attachment.url,
+    ...(typeof attachment.size === 'number' ? { size: attachment.size } : {}),
+  }));
+}
+
+/**
+ * Extracts the attachments from a CONVERSATION_MESSAGE server-sent event.
+ * @param {EventSourceMessage} event - Event received on an event stream
+ * @returns {Attachment[]} The attachments of the message, or none for other events
+ */
+export function getEventAttachments(event: EventSourceMessage): Attachment[] {
+  if (event.event !== 'CONVERSATION_MESSAGE') {
+    return [];
+  }
+
+  try {
+    const data = JSON.parse(event.data) as { conversationEntry?: { entryPayload?: string } };
+    const entryPayload = data.conversationEntry?.entryPayload;
+    return typeof entryPayload === 'string' ? parseAttachments(entryPayload) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Checks that an attachment payload has the fields needed to download it.
+ * @param {unknown} value - Attachment payload to check
+ * @returns {boolean} indicating if the payload is a usable attachment
+ */
+function isAttachmentPayload(value: unknown): value is AttachmentPayload {
+  const attachment = value as Partial<AttachmentPayload> | null;
+  return (
+    typeof attachment?.id === 'string' &&
+    typeof attachment.url === 'string' &&
+    typeof attachment.name === 'string' &&
+    typeof attachment.mimeType === 'string'
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Maps items with an async function, running at most a given number of calls at once.
+ * @param {T[]} items - Items to map
+ * @param {number} concurrency - Maximum number of calls in progress at once
+ * @param {(item: T) => Promise<R>} map - Maps an item
+ * @returns {Promise<R[]>} Promise containing the results in the order of the items
+ */
+export async function mapConcurrently<T, R>(
+  items: T[],
+  concurrency: number,
+  map: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await map(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
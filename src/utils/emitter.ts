@@ -0,0 +1,43 @@
+/**
+ * Minimal typed event emitter that works in both browser and Node.js environments.
+ * `Events` maps each event name to the value passed to its listeners.
+ */
+export class Emitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<(value: never) => void>>();
+
+  /**
+   * Registers a listener for an event.
+   * @param {K} event - Name of the event
+   * @param {(value: Events[K]) => void} listener - Listener called with the event value
+   * @returns {() => void} Function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: (value: Events[K]) => void): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Removes a listener for an event.
+   * @param {K} event - Name of the event
+   * @param {(value: Events[K]) => void} listener - Listener to remove
+   */
+  off<K extends keyof Events>(event: K, listener: (value: Events[K]) => void): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  /**
+   * Calls the listeners of an event in registration order.
+   * @param {K} event - Name of the event
+   * @param {Events[K]} value - Value passed to the listeners
+   */
+  protected emit<K extends keyof Events>(event: K, value: Events[K]): void {
+    for (const listener of [...(this.listeners.get(event) || [])]) {
+      (listener as (value: Events[K]) => void)(value);
+    }
+  }
+}
@@ -0,0 +1,297 @@
+import type { EventSourceMessage } from 'eventsource-client';
+import type {
+  ChoiceOption,
+  ConversationEntry,
+  MessageEntry,
+  MessageFormat,
+  MessageLink
+} from '../types';
+import type {
+  AcknowledgementPayload,
+  ConversationEntryData,
+  MessageEntryPayload,
+  OptionItemPayload,
+  ParticipantChangedPayload,
+  RoutingResultPayload,
+  RoutingWorkResultPayload
+} from '../types/api';
+import { extractAttachments } from './attachments';
+
+const MESSAGE_FORMATS: MessageFormat[] = [
+  'Text',
+  'RichLink',
+  'Attachments',
+  'WebView',
+  'Buttons',
+  'QuickReplies',
+  'Carousel',
+  'Selections',
+  'Inputs',
+  'Result',
+];
+
+/**
+ * Parses a raw conversation entry, from the entries endpoint or an SSE event, into a typed entry.
+ * Entries of unknown types and entries with malformed payloads become `Raw` entries instead of throwing.
+ * @param {ConversationEntryData} data - Raw conversation entry
+ * @returns {ConversationEntry} The typed conversation entry
+ */
+export function parseConversationEntry(data: ConversationEntryData): ConversationEntry {
+  const base = {
+    id: data.identifier,
+    timestamp: toIsoString(data.clientTimestamp) || '',
+    clientTimestamp: toIsoString(data.clientTimestamp) || '',
+    ...(data.transcriptedTimestamp
+      ? { serverTimestamp: toIsoString(data.transcriptedTimestamp) }
+      : {}),
+    sender: {
+      id: data.sender?.subject || '',
+      type: data.sender?.role || '',
+      ...(data.sender?.appType ? { appType: data.sender.appType } : {}),
+    },
+    ...(data.senderDisplayName ? { senderDisplayName: data.senderDisplayName } : {}),
+  };
+
+  const raw = (error?: string): ConversationEntry => ({
+    ...base,
+    type: 'Raw',
+    entryType: data.entryType,
+    payload: data.entryPayload,
+    ...(error ? { error } : {}),
+  });
+
+  let payload: Record<string, unknown>;
+  try {
+    const parsed: unknown =
+      typeof data.entryPayload === 'string' ? JSON.parse(data.entryPayload) : data.entryPayload;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return raw('Entry payload is not a JSON object');
+    }
+    payload = parsed as Record<string, unknown>;
+  } catch {
+    return raw('Entry payload is not valid JSON');
+  }
+
+  switch (data.entryType) {
+    case 'Message':
+      return parseMessage(base, payload) || raw('Message entry has no message');
+    case 'ParticipantChanged': {
+      const { entries = [] } = payload as ParticipantChangedPayload;
+      return {
+        ...base,
+        type: 'ParticipantChanged',
+        changes: (Array.isArray(entries) ? entries : [])
+          .filter(change => change?.participant)
+          .map(change => ({
+            operation: change.operation?.toLowerCase() === 'remove' ? 'remove' : 'add',
+            participant: {
+              id: change.participant.subject,
+              type: change.participant.role,
+              ...(change.participant.appType ? { appType: change.participant.appType } : {}),
+            },
+            ...(change.displayName ? { displayName: change.displayName } : {}),
+          })),
+        payload,
+      };
+    }
+    case 'RoutingResult': {
+      const result = payload as RoutingResultPayload;
+      return {
+        ...base,
+        type: 'RoutingResult',
+        routingType: result.routingType,
+        failureType: result.failureType,
+        estimatedWaitTime: result.estimatedWaitTime?.estimatedWaitTimeInSeconds,
+        payload,
+      };
+    }
+    case 'RoutingWorkResult':
+      return {
+        ...base,
+        type: 'RoutingWorkResult',
+        workType: (payload as RoutingWorkResultPayload).workType,
+        payload,
+      };
+    case 'CloseConversation':
+      return { ...base, type: 'CloseConversation', payload };
+    case 'DeliveryAcknowledgement':
+    case 'ReadAcknowledgement': {
+      const acknowledgement = payload as AcknowledgementPayload;
+      return {
+        ...base,
+        type: data.entryType,
+        acknowledgedEntryId: acknowledgement.acknowledgedConversationEntryIdentifier,
+        acknowledgedAt: toIsoString(acknowledgement.acknowledgementTimestamp),
+        payload,
+      };
+    }
+    case 'TypingStartedIndicator':
+    case 'TypingStoppedIndicator':
+      return { ...base, type: data.entryType, payload };
+    default:
+      return raw();
+  }
+}
+
+/**
+ * Parses the conversation entry carried by an event received on an event stream.
+ * @param {EventSourceMessage} event - Event received on an event stream
+ * @returns {{ conversationId: string; entry: ConversationEntry } | undefined} The conversation ID
+ * and typed entry, or undefined if the event carries no conversation entry
+ */
+export function parseEventEntry(
+  event: EventSourceMessage
+): { conversationId: string; entry: ConversationEntry } | undefined {
+  try {
+    const data = JSON.parse(event.data) as {
+      conversationId?: string;
+      conversationEntry?: ConversationEntryData;
+    };
+    if (!data.conversationEntry?.identifier) {
+      return undefined;
+    }
+    return {
+      conversationId: data.conversationId || '',
+      entry: parseConversationEntry(data.conversationEntry),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Converts a typed entry back into a raw conversation entry, as carried by events on an event stream.
+ * @param {ConversationEntry} entry - Conversation entry
+ * @returns {ConversationEntryData} The raw conversation entry
+ */
+export function toConversationEntryData(entry: ConversationEntry): ConversationEntryData {
+  return {
+    identifier: entry.id,
+    entryType: entry.type === 'Raw' ? entry.entryType : entry.type,
+    entryPayload: typeof entry.payload === 'string' ? entry.payload : JSON.stringify(entry.payload),
+    clientTimestamp: Date.parse(entry.clientTimestamp),
+    ...(entry.serverTimestamp ? { transcriptedTimestamp: Date.parse(entry.serverTimestamp) } : {}),
+    sender: {
+      role: entry.sender.type,
+      subject: entry.sender.id,
+      ...(entry.sender.appType ? { appType: entry.sender.appType } : {}),
+    },
+    ...(entry.senderDisplayName ? { senderDisplayName: entry.senderDisplayName } : {}),
+  };
+}
+
+/**
+ * Reads the timestamp the entries endpoint filters on, falling back to the client timestamp.
+ * @param {ConversationEntry} entry - Conversation entry
+ * @returns {number} Epoch ms timestamp of the entry
+ */
+export function getEntryTimestamp(entry: ConversationEntry): number {
+  return Date.parse(entry.serverTimestamp || entry.clientTimestamp);
+}
+
+/**
+ * Parses the message of a Message entry payload.
+ * @param {Omit<MessageEntry, 'type' | 'messageType' | 'format' | 'payload'>} base - Fields shared by all entries
+ * @param {Record<string, unknown>} payload - Parsed entry payload
+ * @returns {MessageEntry | undefined} The message entry, or undefined if the payload has no message
+ */
+function parseMessage(
+  base: Omit<MessageEntry, 'type' | 'messageType' | 'format' | 'payload'>,
+  payload: Record<string, unknown>
+): MessageEntry | undefined {
+  const message = (payload as Partial<MessageEntryPayload>).abstractMessage;
+  if (!message || typeof message !== 'object') {
+    return undefined;
+  }
+
+  const content =
+    message.staticContent ||
+    message.choices ||
+    message.choicesResponse ||
+    message.form ||
+    message.formResponse;
+  const staticContent = message.staticContent;
+  const attachments = extractAttachments(payload);
+  const link = staticContent?.linkItem?.url ? toLink(staticContent) : undefined;
+  const choices = message.choices
+    ? toOptions([
+        ...(message.choices.optionItems || []),
+        ...(message.choices.items || []).flatMap(item => item.interactionItems || []),
+      ])
+    : undefined;
+  const inReplyToMessageId =
+    message.inReplyToMessageId ||
+    message.choicesResponse?.inReplyToMessageId ||
+    message.formResponse?.inReplyToMessageId;
+  const text = staticContent?.text ?? message.choices?.text;
+
+  return {
+    ...base,
+    type: 'Message',
+    messageType: message.messageType,
+    format: toMessageFormat(content?.formatType),
+    ...(text !== undefined ? { text } : {}),
+    ...(link ? { link } : {}),
+    ...(choices ? { choices } : {}),
+    ...(message.choicesResponse
+      ? { selectedOptions: toOptions(message.choicesResponse.selectedOptions || []) }
+      : {}),
+    ...(inReplyToMessageId ? { inReplyToMessageId } : {}),
+    ...(attachments.length > 0 ? { attachments } : {}),
+    payload,
+  };
+}
+
+/**
+ * Maps a format type to a known message format.
+ * @param {string} [formatType] - Format type from the payload
+ * @returns {MessageFormat} The message format, or 'Unknown'
+ */
+function toMessageFormat(formatType?: string): MessageFormat {
+  return MESSAGE_FORMATS.find(format => format === formatType) || 'Unknown';
+}
+
+/**
+ * Maps option payloads to choice options.
+ * @param {OptionItemPayload[]} options - Option payloads
+ * @returns {ChoiceOption[]} The choice options
+ */
+function toOptions(options: OptionItemPayload[]): ChoiceOption[] {
+  return options
+    .filter(option => typeof option?.optionIdentifier === 'string')
+    .map(option => ({
+      optionIdentifier: option.optionIdentifier,
+      title: option.titleItem?.title ?? option.title ?? '',
+    }));
+}
+
+/**
+ * Maps rich link content to a message link.
+ * @param {NonNullable<MessageEntryPayload['abstractMessage']['staticContent']>} content - Rich link content
+ * @returns {MessageLink} The link
+ */
+function toLink(
+  content: NonNullable<MessageEntryPayload['abstractMessage']['staticContent']>
+): MessageLink {
+  return {
+    url: content.linkItem?.url || '',
+    ...(content.linkItem?.titleItem?.title ? { title: content.linkItem.titleItem.title } : {}),
+    ...(content.linkItem?.titleItem?.subtitle
+      ? { subtitle: content.linkItem.titleItem.subtitle }
+      : {}),
+    ...(content.image?.url ? { imageUrl: content.image.url } : {}),
+  };
+}
+
+/**
+ * Converts an epoch ms timestamp to an ISO string.
+ * @param {number} [timestamp] - Epoch ms timestamp
+ * @returns {string | undefined} The ISO string, or undefined if the timestamp is missing or invalid
+ */
+function toIsoString(timestamp?: number): string | undefined {
+  if (timestamp === undefined || timestamp === null) {
+    return undefined;
+  }
+  const date = new Date(timestamp);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -5,6 +5,230 @@ export interface MessagingInAppWebError extends Error {
   type: string;
 }
 
+/** Error raised when the customer identity provider fails to supply a token */
+export interface IdentityProviderError extends Error {
+  type: 'identity_provider_error';
+  operation: string;
+  cause: unknown;
+}
+
+/**
+ * Creates an error for a failed customer identity provider call.
+ * @param {string} operation - Name of the operation that needed the identity token
+ * @param {unknown} cause - Error thrown by the provider, or undefined if it returned no token
+ * @returns {IdentityProviderError} object with error details
+ */
+export function createIdentityProviderError(
+  operation: string,
+  cause: unknown
+): IdentityProviderError {
+  const reason = cause instanceof Error ? cause.message : 'no customer identity token returned';
+  const error = new Error(
+    `Identity provider failed in ${operation}: ${reason}`
+  ) as IdentityProviderError;
+  error.type = 'identity_provider_error';
+  error.operation = operation;
+  error.cause = cause;
+
+  if (Error.captureStackTrace) {
+    Error.captureStackTrace(error, createIdentityProviderError);
+  }
+  return error;
+}
+
+/** A single problem found while validating request parameters */
+export interface ValidationIssue {
+  /** Name of the parameter or field with the problem */
+  field: string;
+  /** Machine readable problem code (e.g. 'required', 'max_length') */
+  code: string;
+  /** Human readable description of the problem */
+  message: string;
+}
+
+/** Error raised when request parameters fail validation before a request is made */
+export interface ValidationError extends Error {
+  type: 'validation_error';
+  operation: string;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Creates an error listing every validation problem found for an operation.
+ * @param {string} operation - Name of the operation whose parameters failed validation
+ * @param {ValidationIssue[]} issues - Problems found in the parameters
+ * @returns {ValidationError} object with error details
+ */
+export function createValidationError(
+  operation: string,
+  issues: ValidationIssue[]
+): ValidationError {
+  const error = new Error(
+    `Invalid parameters for ${operation}: ${issues.map(issue => issue.message).join('; ')}`
+  ) as ValidationError;
+  error.type = 'validation_error';
+  error.operation = operation;
+  error.issues = issues;
+
+  if (Error.captureStackTrace) {
+    Error.captureStackTrace(error, createValidationError);
+  }
+  return error;
+}
+
+/** Error raised when an operation is rejected because the deployment is outside business hours */
+export interface BusinessHoursError extends Error {
+  type: 'business_hours_closed';
+  operation: string;
+  nextOpening?: Date;
+}
+
+/**
+ * Creates an error for an operation attempted outside business hours.
+ * @param {string} operation - Name of the operation that was rejected
+ * @param {Date} [nextOpening] - Start of the next business hours window, if known
+ * @returns {BusinessHoursError} object with error details
+ */
+export function createBusinessHoursError(
+  operation: string,
+  nextOpening?: Date
+): BusinessHoursError {
+  const error = new Error(
+    `Outside business hours in ${operation}` +
+      (nextOpening ? `: next opening at ${nextOpening.toISOString()}` : '')
+  ) as BusinessHoursError;
+  error.type = 'business_hours_closed';
+  error.operation = operation;
+  error.nextOpening = nextOpening;
+
+  if (Error.captureStackTrace) {
+    Error.captureStackTrace(error, createBusinessHoursError);
+  }
+  return error;
+}
+
+/** Error raised when an operation does not complete in time */
+export interface TimeoutError extends Error {
+  type: 'timeout_error';
+  operation: string;
+}
+
+/**
+ * Creates an error for an operation that did not complete in time.
+ * @param {string} operation - Name of the operation that timed out
+ * @returns {TimeoutError} object with error details
+ */
+export function createTimeoutError(operation: string): TimeoutError {
+  const error = new Error(`Request timeout for operation: ${operation}`) as TimeoutError;
+  error.type = 'timeout_error';
+  error.operation = operation;
+
+  if (Error.captureStackTrace) {
+    Error.captureStackTrace(error, createTimeoutError);
+  }
+  return error;
+}
+
+/** Error raised when an attachment cannot be downloaded */
+export interface AttachmentError extends Error {
+  type: 'attachment_error';
+  operation: string;
+  attachmentId: string;
+}
+
+/**
+ * Creates an error for an attachment download that returned no usable content.
+ * @param {string} operation - Name of the operation that failed
+ * @param {string} attachmentId - ID of the attachment
+ * @param {string} reason - Description of the failure
+ * @returns {AttachmentError} object with error details
+ */
+export function createAttachmentError(
+  operation: string,
+  attachmentId: string,
+  reason: string
+): AttachmentError {
+  const error = new Error(
+    `Attachment ${attachmentId} failed in ${operation}: ${reason}`
+  ) as AttachmentError;
+  error.type = 'attachment_error';
+  error.operation = operation;
+  error.attachmentId = attachmentId;
+
+  if (Error.captureStackTrace) {
+    Error.captureStackTrace(error, createAttachmentError);
+  }
+  return error;
+}
+
+/** Kind of failure on an event stream */
+export type EventStreamErrorCode =
+  | 'auth_expired'
+  | 'forbidden'
+  | 'network'
+  | 'server_error'
+  | 'parse_error';
+
+/** Error raised when an event stream fails or receives an event it cannot parse */
+export interface EventStreamError extends Error {
+  type: 'event_stream_error';
+  code: EventStreamErrorCode;
+  operation: string;
+  /** HTTP status code the stream was rejected with, if any */
+  statusCode?: number;
+  cause?: unknown;
+}
+
+/**
+ * Creates an error for a failed event stream.
+ * @param {EventStreamErrorCode} code - Kind of failure
+ * @param {string} message - Description of the failure
+ * @param {{ statusCode?: number; cause?: unknown }} [details] - HTTP status code or underlying error
+ * @returns {EventStreamError} object with error details
+ */
+export function createEventStreamError(
+  code: EventStreamErrorCode,
+  message: string,
+  details: { statusCode?: number; cause?: unknown } = {}
+): EventStreamError {
+  const error = new Error(`Event stream error: ${message}`) as EventStreamError;
+  error.type = 'event_stream_error';
+  error.code = code;
+  error.operation = 'events.stream';
+  error.statusCode = details.statusCode;
+  error.cause = details.cause;
+
+  if (Error.captureStackTrace) {
+    Error.captureStackTrace(error, createEventStreamError);
+  }
+  return error;
+}
+
+/**
+ * Creates an event stream error for a response the stream, or a request made for it, was rejected with.
+ * @param {number} status - HTTP status code of the response
+ * @param {unknown} [cause] - Error the request failed with, if any
+ * @returns {EventStreamError} object with error details
+ */
+export function createEventStreamStatusError(status: number, cause?: unknown): EventStreamError {
+  if (status === 401) {
+    return createEventStreamError('auth_expired', 'token expired or invalid (401)', {
+      statusCode: status,
+      cause,
+    });
+  }
+  if (status === 403) {
+    return createEventStreamError('forbidden', 'access denied (403)', {
+      statusCode: status,
+      cause,
+    });
+  }
+  return createEventStreamError('server_error', `unexpected response (${status})`, {
+    statusCode: status,
+    cause,
+  });
+}
+
 /**
  * Creates a standardized Messaging In-App and Web API error object.
  * @param {number} status - HTTP status code
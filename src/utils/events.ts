@@ -0,0 +1,114 @@
+import type { EventSourceMessage } from 'eventsource-client';
+import type { ConversationEntry, ConversationStreamEvent } from '../types';
+import type { SSEEvent, SSEEventType } from '../types/api';
+import { parseConversationEntry, toConversationEntryData } from './entries';
+
+/** Entry types each event type may carry */
+const EVENT_ENTRY_TYPES: Record<SSEEventType, ConversationEntry['type'][]> = {
+  CONVERSATION_MESSAGE: ['Message'],
+  CONVERSATION_ROUTING_RESULT: ['RoutingResult', 'RoutingWorkResult'],
+  CONVERSATION_PARTICIPANT_CHANGED: ['ParticipantChanged'],
+  CONVERSATION_DELIVERY_ACKNOWLEDGEMENT: ['DeliveryAcknowledgement'],
+  CONVERSATION_READ_ACKNOWLEDGEMENT: ['ReadAcknowledgement'],
+  CONVERSATION_TYPING_STARTED_INDICATOR: ['TypingStartedIndicator'],
+  CONVERSATION_TYPING_STOPPED_INDICATOR: ['TypingStoppedIndicator'],
+  CONVERSATION_CLOSE_CONVERSATION: ['CloseConversation'],
+};
+
+/** Epoch ms range an event ID is accepted as a timestamp in: from 2000 until a day from now */
+const MIN_EVENT_ID_TIMESTAMP = Date.UTC(2000, 0, 1);
+const MAX_EVENT_ID_CLOCK_SKEW = 24 * 60 * 60 * 1000;
+
+/** Why an event received on an event stream could not be parsed */
+export interface StreamEventFailure {
+  /** Description of the problem */
+  reason: string;
+  /** Whether the event is malformed, rather than of a type this client does not recognize */
+  malformed: boolean;
+}
+
+/**
+ * Parses an event received on an event stream, including its conversation entry payload.
+ * @param {EventSourceMessage} message - Event received on an event stream
+ * @returns {ConversationStreamEvent | StreamEventFailure} The typed event, or why the event could
+ * not be parsed
+ */
+export function parseStreamEvent(
+  message: EventSourceMessage
+): ConversationStreamEvent | StreamEventFailure {
+  const type = message.event as SSEEventType | undefined;
+  if (!type || !Object.prototype.hasOwnProperty.call(EVENT_ENTRY_TYPES, type)) {
+    return { reason: `Unknown event type: ${message.event || 'none'}`, malformed: false };
+  }
+
+  let data: SSEEvent;
+  try {
+    data = JSON.parse(message.data) as SSEEvent;
+  } catch {
+    return { reason: 'Event data is not valid JSON', malformed: true };
+  }
+
+  if (!data?.conversationEntry?.identifier) {
+    return { reason: 'Event has no conversation entry', malformed: true };
+  }
+
+  const entry = parseConversationEntry(data.conversationEntry);
+  if (entry.type === 'Raw') {
+    return entry.error
+      ? { reason: entry.error, malformed: true }
+      : { reason: `Unknown entry type: ${entry.entryType}`, malformed: false };
+  }
+  if (!EVENT_ENTRY_TYPES[type].includes(entry.type)) {
+    return { reason: `Unexpected ${entry.type} entry in ${type} event`, malformed: false };
+  }
+
+  return {
+    ...(message.id ? { id: message.id } : {}),
+    type,
+    conversationId: data.conversationId,
+    entry,
+    data,
+  };
+}
+
+/**
+ * Builds the event an entry is received as on an event stream, so entries loaded from the
+ * entries endpoint can be passed to the same handlers as live events. The event has no ID.
+ * @param {string} conversationId - ID of the conversation the entry belongs to
+ * @param {ConversationEntry} entry - Conversation entry
+ * @returns {EventSourceMessage | undefined} The event, or undefined if no event carries the entry
+ */
+export function toStreamEvent(
+  conversationId: string,
+  entry: ConversationEntry
+): EventSourceMessage | undefined {
+  const type = (Object.keys(EVENT_ENTRY_TYPES) as SSEEventType[]).find(eventType =>
+    EVENT_ENTRY_TYPES[eventType].includes(entry.type)
+  );
+  if (!type) {
+    return undefined;
+  }
+
+  return {
+    event: type,
+    data: JSON.stringify({ conversationId, conversationEntry: toConversationEntryData(entry) }),
+  };
+}
+
+/**
+ * Reads the time of an event from its ID. Event IDs are epoch ms timestamps, but they are not
+ * documented as such, so an ID is only read as one if it is all digits and falls between 2000
+ * and a day from now.
+ * @param {string} eventId - ID of an event received on an event stream
+ * @returns {number | undefined} Epoch ms timestamp of the event, or undefined if the ID is not one
+ */
+export function getEventIdTimestamp(eventId: string): number | undefined {
+  if (!/^\d+$/.test(eventId)) {
+    return undefined;
+  }
+
+  const timestamp = Number(eventId);
+  return timestamp >= MIN_EVENT_ID_TIMESTAMP && timestamp <= Date.now() + MAX_EVENT_ID_CLOCK_SKEW
+    ? timestamp
+    : undefined;
+}
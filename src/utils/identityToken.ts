@@ -0,0 +1,162 @@
+import { createPrivateKey, createPublicKey, sign, verify } from 'crypto';
+import type { KeyObject } from 'crypto';
+import { decodeBase64Url, decodeJwt, type JwtClaims } from './jwt';
+
+/** Signing algorithms supported for customer identity tokens */
+export type IdentityTokenAlgorithm = 'RS256' | 'ES256';
+
+/** Options for signing a customer identity token */
+export interface IdentityTokenSignOptions {
+  /** PEM encoded private key or key object used to sign the token */
+  privateKey: string | KeyObject;
+  /** Signing algorithm (inferred from the key type when omitted) */
+  algorithm?: IdentityTokenAlgorithm;
+  /** Issuer configured for the user verification setup in Salesforce */
+  issuer: string;
+  /** Identifier of the verified customer */
+  subject: string;
+  /** Audience expected by the user verification setup */
+  audience: string | string[];
+  /** Lifetime of the token in seconds (defaults to 300) */
+  expiresIn?: number;
+  /** Optional key ID added to the token header */
+  keyId?: string;
+  /** Additional claims to include in the payload */
+  claims?: Record<string, unknown>;
+  /** Time the token is issued at (defaults to now) */
+  issuedAt?: Date;
+}
+
+/** Options for verifying a customer identity token */
+export interface IdentityTokenVerifyOptions {
+  /** Expected issuer */
+  issuer?: string;
+  /** Expected audience */
+  audience?: string;
+  /** Time to check the expiry against (defaults to now) */
+  now?: Date;
+}
+
+const DEFAULT_EXPIRES_IN = 300;
+
+/**
+ * Encodes a value as base64url JSON.
+ * @param {unknown} value - Value to encode
+ * @returns {string} base64url encoded JSON
+ */
+function encodeSegment(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Checks that a key can be used with an algorithm: an RSA key for RS256, or an EC key on the
+ * P-256 curve for ES256.
+ * @param {KeyObject} key - Private or public key
+ * @param {IdentityTokenAlgorithm} algorithm - Algorithm the key is used with
+ * @throws {Error} If the key does not match the algorithm
+ */
+function assertKeyMatchesAlgorithm(key: KeyObject, algorithm: IdentityTokenAlgorithm): void {
+  const expectedKeyType = algorithm === 'ES256' ? 'ec' : 'rsa';
+  if (key.asymmetricKeyType !== expectedKeyType) {
+    throw new Error(`${algorithm} requires an ${expectedKeyType.toUpperCase()} ${key.type} key`);
+  }
+  if (algorithm === 'ES256' && key.asymmetricKeyDetails?.namedCurve !== 'prime256v1') {
+    throw new Error(`ES256 requires a P-256 ${key.type} key`);
+  }
+}
+
+/**
+ * Signs a customer identity JWT for authenticated Messaging for In-App and Web sessions.
+ * The result can be passed as `customerIdentityToken` or returned from an identity provider.
+ * @param {IdentityTokenSignOptions} options - Key, algorithm and claims for the token
+ * @returns {string} The signed JWT
+ * @throws {Error} If the key does not match the requested algorithm
+ */
+export function signCustomerIdentityToken(options: IdentityTokenSignOptions): string {
+  const key =
+    typeof options.privateKey === 'string'
+      ? createPrivateKey(options.privateKey)
+      : options.privateKey;
+  const algorithm = options.algorithm || (key.asymmetricKeyType === 'ec' ? 'ES256' : 'RS256');
+  assertKeyMatchesAlgorithm(key, algorithm);
+
+  const issuedAt = Math.floor((options.issuedAt || new Date()).getTime() / 1000);
+  const header = {
+    alg: algorithm,
+    typ: 'JWT',
+    ...(options.keyId ? { kid: options.keyId } : {}),
+  };
+  const payload: JwtClaims = {
+    ...options.claims,
+    iss: options.issuer,
+    sub: options.subject,
+    aud: options.audience,
+    iat: issuedAt,
+    exp: issuedAt + (options.expiresIn ?? DEFAULT_EXPIRES_IN),
+  };
+
+  const signingInput = `${encodeSegment(header)}.${encodeSegment(payload)}`;
+  const signature = sign('sha256', Buffer.from(signingInput), {
+    key,
+    ...(algorithm === 'ES256' ? { dsaEncoding: 'ieee-p1363' as const } : {}),
+  });
+
+  return `${signingInput}.${signature.toString('base64url')}`;
+}
+
+/**
+ * Verifies the signature and registered claims of a customer identity JWT.
+ * @param {string} token - The JWT to verify
+ * @param {string | KeyObject} publicKey - PEM encoded public key or key object
+ * @param {IdentityTokenVerifyOptions} [options] - Expected issuer, audience and verification time
+ * @returns {JwtClaims} The verified claims
+ * @throws {Error} If the token is malformed, the key does not match its algorithm, its signature is
+ * invalid, or a claim does not match
+ */
+export function verifyCustomerIdentityToken(
+  token: string,
+  publicKey: string | KeyObject,
+  options: IdentityTokenVerifyOptions = {}
+): JwtClaims {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+  const claims = decodeJwt(token);
+  if (!claims || !encodedSignature) {
+    throw new Error('Malformed customer identity token');
+  }
+
+  const header = JSON.parse(decodeBase64Url(encodedHeader)) as { alg?: string };
+  if (header.alg !== 'RS256' && header.alg !== 'ES256') {
+    throw new Error(`Unsupported customer identity token algorithm: ${header.alg}`);
+  }
+
+  const key = typeof publicKey === 'string' ? createPublicKey(publicKey) : publicKey;
+  assertKeyMatchesAlgorithm(key, header.alg);
+  const isValid = verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    {
+      key,
+      ...(header.alg === 'ES256' ? { dsaEncoding: 'ieee-p1363' as const } : {}),
+    },
+    Buffer.from(encodedSignature, 'base64url')
+  );
+  if (!isValid) {
+    throw new Error('Invalid customer identity token signature');
+  }
+
+  const now = Math.floor((options.now || new Date()).getTime() / 1000);
+  if (typeof claims.exp !== 'number' || claims.exp <= now) {
+    throw new Error('Customer identity token has expired');
+  }
+  if (options.issuer && claims.iss !== options.issuer) {
+    throw new Error('Customer identity token issuer does not match');
+  }
+  if (options.audience) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(options.audience)) {
+      throw new Error('Customer identity token audience does not match');
+    }
+  }
+
+  return claims;
+}
@@ -0,0 +1,56 @@
+/** Registered claims read from a JWT payload */
+export interface JwtClaims {
+  /** Subject of the token */
+  sub?: string;
+  /** Issuer of the token */
+  iss?: string;
+  /** Audience of the token */
+  aud?: string | string[];
+  /** Expiry as seconds since the epoch */
+  exp?: number;
+  /** Issue time as seconds since the epoch */
+  iat?: number;
+  /** Any other claims carried by the token */
+  [claim: string]: unknown;
+}
+
+/**
+ * Decodes a base64url encoded string into UTF-8 text.
+ * @param {string} value - base64url encoded value
+ * @returns {string} Decoded text
+ */
+export function decodeBase64Url(value: string): string {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '=');
+  const bytes = Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/**
+ * Decodes the payload of a JWT without verifying its signature.
+ * @param {string} token - Encoded JWT
+ * @returns {JwtClaims | undefined} The decoded claims, or undefined if the token is not a JWT
+ */
+export function decodeJwt(token: string): JwtClaims | undefined {
+  const segments = token.split('.');
+  if (segments.length !== 3) {
+    return undefined;
+  }
+
+  try {
+    const claims: unknown = JSON.parse(decodeBase64Url(segments[1]));
+    return claims && typeof claims === 'object' ? (claims as JwtClaims) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the expiry of a JWT.
+ * @param {string} token - Encoded JWT
+ * @returns {Date | undefined} Expiry date, or undefined if the token carries no `exp` claim
+ */
+export function getJwtExpiry(token: string): Date | undefined {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? new Date(exp * 1000) : undefined;
+}
@@ -0,0 +1,148 @@
+import type { MessageParams } from '../types';
+import type { ValidationIssue } from './error';
+
+/**
+ * Checks that the fields required by the message format are present and well formed.
+ * @param {MessageParams} params - Message parameters
+ * @returns {ValidationIssue[]} Problems found in the message parameters
+ */
+export function validateMessageParams(params: MessageParams): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const require = (field: string, value: unknown, message: string): void => {
+    if (typeof value !== 'string' || !value.trim()) {
+      issues.push({ field, code: 'required', message });
+    }
+  };
+
+  switch (params.format) {
+    case undefined:
+    case 'Text':
+      require('text', params.text, 'Message text is required');
+      break;
+    case 'RichLink':
+      require('title', params.title, 'Rich link title is required');
+      require('url', params.url, 'Rich link URL is required');
+      if (params.url && !isHttpUrl(params.url)) {
+        issues.push({
+          field: 'url',
+          code: 'invalid_format',
+          message: 'Rich link URL must be an http(s) URL',
+        });
+      }
+      if (params.image && !isHttpUrl(params.image.url)) {
+        issues.push({
+          field: 'image.url',
+          code: 'invalid_format',
+          message: 'Rich link image URL must be an http(s) URL',
+        });
+      }
+      break;
+    case 'ChoicesResponse':
+      require('inReplyToMessageId', params.inReplyToMessageId, 'ID of the choices message is required');
+      if (!params.selectedOptions?.length) {
+        issues.push({
+          field: 'selectedOptions',
+          code: 'required',
+          message: 'At least one option must be selected',
+        });
+      }
+      params.selectedOptions?.forEach((option, index) => {
+        require(`selectedOptions[${index}].optionIdentifier`, option.optionIdentifier, 'Selected option identifier is required');
+      });
+      break;
+    case 'FormResponse':
+      require('inReplyToMessageId', params.inReplyToMessageId, 'ID of the form message is required');
+      if (!params.values || Object.keys(params.values).length === 0) {
+        issues.push({
+          field: 'values',
+          code: 'required',
+          message: 'At least one form value is required',
+        });
+      }
+      break;
+    default:
+      issues.push({
+        field: 'format',
+        code: 'invalid_format',
+        message: `Unsupported message format: ${(params as { format: string }).format}`,
+      });
+  }
+
+  return issues;
+}
+
+/**
+ * Builds the API message object for validated message parameters.
+ * @param {MessageParams} params - Message parameters
+ * @param {string} id - ID of the message
+ * @returns {Record<string, unknown>} The message object sent to the API
+ */
+export function buildMessagePayload(params: MessageParams, id: string): Record<string, unknown> {
+  switch (params.format) {
+    case 'RichLink':
+      return {
+        id,
+        messageType: 'StaticContentMessage',
+        staticContent: {
+          formatType: 'RichLink',
+          linkItem: {
+            url: params.url,
+            titleItem: {
+              title: params.title,
+              ...(params.subtitle ? { subtitle: params.subtitle } : {}),
+            },
+          },
+          ...(params.image ? { image: { assetType: 'Image', ...params.image } } : {}),
+        },
+      };
+    case 'ChoicesResponse':
+      return {
+        id,
+        messageType: 'ChoicesResponseMessage',
+        choicesResponse: {
+          formatType: 'Selections',
+          inReplyToMessageId: params.inReplyToMessageId,
+          selectedOptions: params.selectedOptions.map(option => ({
+            optionIdentifier: option.optionIdentifier,
+            title: option.title,
+          })),
+        },
+      };
+    case 'FormResponse':
+      return {
+        id,
+        messageType: 'FormResponseMessage',
+        formResponse: {
+          formatType: 'Inputs',
+          inReplyToMessageId: params.inReplyToMessageId,
+          inputValues: Object.entries(params.values).map(([identifier, value]) => ({
+            identifier,
+            value,
+          })),
+        },
+      };
+    default:
+      return {
+        id,
+        messageType: 'StaticContentMessage',
+        staticContent: {
+          formatType: 'Text',
+          text: params.text,
+        },
+      };
+  }
+}
+
+/**
+ * Checks that a value is an absolute http or https URL.
+ * @param {string} value - Value to check
+ * @returns {boolean} indicating if the value is an http(s) URL
+ */
+function isHttpUrl(value: string): boolean {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,124 @@
+import { randomUUID } from 'crypto';
+
+/** Binary content accepted for multipart file parts */
+export type BinarySource = Blob | Uint8Array | ReadableStream<Uint8Array>;
+
+/** A part of a multipart/form-data body */
+export interface MultipartPart {
+  /** Form field name of the part */
+  name: string;
+  /** Content of the part */
+  content: string | BinarySource;
+  /** MIME type of the part */
+  contentType?: string;
+  /** File name, for file parts */
+  fileName?: string;
+}
+
+/** A streamed multipart/form-data body */
+export interface MultipartBody {
+  /** The encoded body */
+  body: ReadableStream<Uint8Array>;
+  /** Content-Type header value, including the boundary */
+  contentType: string;
+}
+
+const CHUNK_SIZE = 64 * 1024;
+const encoder = new TextEncoder();
+
+/**
+ * Encodes parts as a streamed multipart/form-data body.
+ * Binary content is read as the body is consumed, so `onChunk` reports upload progress.
+ * @param {MultipartPart[]} parts - Parts to encode, in order
+ * @param {(bytes: number) => void} [onChunk] - Called with the size of every binary chunk sent
+ * @returns {MultipartBody} The body and its Content-Type header value
+ */
+export function createMultipartBody(
+  parts: MultipartPart[],
+  onChunk?: (bytes: number) => void
+): MultipartBody {
+  const boundary = `----miaw-client-${randomUUID()}`;
+
+  async function* encode(): AsyncGenerator<Uint8Array> {
+    for (const part of parts) {
+      const disposition = `form-data; name="${escapeQuotes(part.name)}"${
+        part.fileName ? `; filename="${escapeQuotes(part.fileName)}"` : ''
+      }`;
+      yield encoder.encode(
+        `--${boundary}\r\nContent-Disposition: ${disposition}\r\n` +
+          (part.contentType ? `Content-Type: ${part.contentType}\r\n` : '') +
+          '\r\n'
+      );
+
+      if (typeof part.content === 'string') {
+        yield encoder.encode(part.content);
+      } else {
+        for await (const chunk of readChunks(part.content)) {
+          yield chunk;
+          onChunk?.(chunk.byteLength);
+        }
+      }
+      yield encoder.encode('\r\n');
+    }
+    yield encoder.encode(`--${boundary}--\r\n`);
+  }
+
+  const iterator = encode();
+  return {
+    contentType: `multipart/form-data; boundary=${boundary}`,
+    body: new ReadableStream<Uint8Array>({
+      async pull(controller): Promise<void> {
+        try {
+          const result = await iterator.next();
+          if (result.done) {
+            controller.close();
+          } else {
+            controller.enqueue(result.value);
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel(): Promise<void> {
+        await iterator.return(undefined);
+      },
+    }),
+  };
+}
+
+/**
+ * Reads binary content as a sequence of chunks.
+ * @param {BinarySource} source - Blob, buffer or stream to read
+ * @returns {AsyncGenerator<Uint8Array>} The chunks of the content
+ */
+async function* readChunks(source: BinarySource): AsyncGenerator<Uint8Array> {
+  if (source instanceof Uint8Array) {
+    for (let offset = 0; offset < source.byteLength; offset += CHUNK_SIZE) {
+      yield source.subarray(offset, offset + CHUNK_SIZE);
+    }
+    return;
+  }
+
+  const stream = source instanceof Blob ? (source.stream() as ReadableStream<Uint8Array>) : source;
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Escapes double quotes in a Content-Disposition parameter value.
+ * @param {string} value - Value to escape
+ * @returns {string} The escaped value
+ */
+function escapeQuotes(value: string): string {
+  return value.replace(/"/g, '%22').replace(/\r|\n/g, ' ');
+}
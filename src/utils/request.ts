@@ -1,4 +1,4 @@
-import { createError } from './error';
+import { createError, createTimeoutError } from './error';
 import { Logger } from '../types';
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH';
 
@@ -9,13 +9,24 @@ interface RequestOptions {
     timeout?: number;
 }
 
-interface TimeoutError extends Error {
-    type: string;
-    operation: string;
+/**
+ * Checks whether a body should be sent as is rather than JSON encoded.
+ * @param body Request body
+ * @returns Whether the body is binary, form or stream content
+ */
+function isRawBody(body: unknown): body is Blob | ArrayBuffer | Uint8Array | FormData | ReadableStream {
+    return (
+        body instanceof Blob ||
+        body instanceof ArrayBuffer ||
+        body instanceof Uint8Array ||
+        body instanceof FormData ||
+        body instanceof ReadableStream
+    );
 }
 
 /**
  * Makes an HTTP request with optional timeout.
+ * Binary, form and stream bodies are sent as is; other bodies are JSON encoded.
  * @param url URL to fetch
  * @param options Request options including timeout
  * @param logger Logger instance
@@ -39,7 +50,14 @@ export async function makeRequest<T>(
             signal: controller.signal
         };
 
-        if (body) {
+        if (isRawBody(body)) {
+            fetchOptions.body = body;
+
+            // Streamed request bodies must be sent half duplex
+            if (body instanceof ReadableStream) {
+                (fetchOptions as RequestInit & { duplex: 'half' }).duplex = 'half';
+            }
+        } else if (body) {
             fetchOptions.body = typeof body === 'string' ? body : JSON.stringify(body);
             
             if (!headers['Content-Type'] && typeof body !== 'string') {
@@ -59,9 +77,7 @@ export async function makeRequest<T>(
         return response as T;
     } catch (error: unknown) {
         if (error instanceof Error && error.name === 'AbortError') {
-            const timeoutError = new Error(`Request timeout for operation: ${operation}`) as TimeoutError;
-            timeoutError.type = 'timeout_error';
-            timeoutError.operation = operation;
+            const timeoutError = createTimeoutError(operation);
             logger.error(`Request timeout for ${operation}`, timeoutError);
             throw timeoutError;
         }
@@ -2,7 +2,7 @@ import { defineConfig } from 'tsup'
 import { execSync } from 'child_process'
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/node.ts'],
   format: ['esm'],
   dts: false,
   sourcemap: true,
@@ -13,7 +13,7 @@ export default defineConfig({
   treeshake: true,
   splitting: false,
   bundle: true,
-  external: ['crypto', 'eventsource-client'],
+  external: ['crypto', 'fs/promises', 'eventsource-client'],
   onSuccess: async () => {
     execSync('tsc -p tsconfig.declaration.json')
   }